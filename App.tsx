@@ -1,19 +1,117 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { SourceClip, TimelineTrack, BeatGrid, PlaybackState, ClipSegment, SavedProject, SerializableClip } from './types';
-import { decodeAudio, analyzeBeats, buildBeatGrid, generateWaveform } from './services/audioUtils';
-import { runFfmpeg, onFfmpegProgress } from './services/ffmpegBridge';
+import { SourceClip, TimelineTrack, BeatGrid, PlaybackState, ClipSegment, EditMode, SavedProject, SerializableClip, SongSection, CutLengthRange, DynamicCutOptions, LoudnessEnvelope, Onset, SyncSelection, SyncStrategyId, ShortClipMode, SnapResolution, SourceOffsetMode, TimeSignature, WaveformPeaks } from './types';
+import {
+  decodeAudio,
+  buildBeatGrid,
+  normalizeWaveformPeaks,
+  packWaveformPeaks,
+  normalizeOnsets,
+  getBeatSpanSec,
+  getBpmAt,
+  getFirstDownbeatSec,
+  alignBarPhase,
+  buildBeatGridFromTempoMap,
+  computeBeatEnergy,
+  rotateBarPhase,
+  moveBeat,
+  addBeat,
+  removeBeat,
+  isDownbeat,
+  estimateTapTempo,
+  normalizeBeatGrid,
+  shiftBeatGrid
+} from './services/audioUtils';
+import { runFfmpeg, cancelFfmpeg, onFfmpegProgress } from './services/ffmpegBridge';
 import { runProxy, cancelProxy } from './services/proxyManager';
-import { autoSyncClips } from './services/syncEngine';
-import { DEFAULT_ZOOM, DEFAULT_FPS, BEATS_PER_BAR, TIMELINE_ZOOM_MIN, TIMELINE_ZOOM_MAX } from './constants';
+import { SegmentDragMode, applyTrackEdit, getRippleRange, splitSegment, splitSegmentAtTimes } from './services/segmentEdit';
+import { EMPTY_HISTORY, EditHistory, EditSnapshot, jumpToStep, mergeRestoredClips, recordStep, redoStep, undoStep } from './services/editHistory';
+import {
+  DEFAULT_SYNC_SELECTION,
+  SYNC_STRATEGIES,
+  StretchReportEntry,
+  autoSyncClips,
+  findStretchedSegments,
+  selectCutOnsets
+} from './services/syncEngine';
+import { createRandomSeed } from './services/random';
+import { detectShotStarts } from './services/sceneDetection';
+import { parseClipPattern } from './services/clipPattern';
+import { analyzeClipMotion } from './services/motionAnalysis';
+import { AnalysisJob, startAnalysis } from './services/analysisManager';
+import { METRONOME_LOOKAHEAD_SEC, scheduleClick } from './services/metronome';
+import { ImportedGrid, findImportedGrid, parseBeatGridFile, parseSeratoBeatGrid } from './services/gridImport';
+import { normalizeSongSections, resizeSongSection } from './services/structureDetection';
+import { DEFAULT_ZOOM, DEFAULT_FPS, DEFAULT_TIME_SIGNATURE, DEFAULT_EDIT_MODE, DEFAULT_SNAP_RESOLUTION, CUT_LENGTH_OPTIONS, SNAP_RESOLUTION_OPTIONS, TIMELINE_ZOOM_MIN, TIMELINE_ZOOM_MAX } from './constants';
 import Header from './components/Header';
 import MediaPool from './components/MediaPool';
 import Timeline from './components/Timeline';
+import TimelineToolbar from './components/TimelineToolbar';
 import Inspector from './components/Inspector';
 import PreviewPlayer from './components/PreviewPlayer';
 
 const LAST_PROJECT_STORAGE_KEY = 'beatcutter:lastProjectPath';
 const PROJECT_FILE_SUFFIX = '.beatcutter.json';
+// A pause longer than this between taps starts a new tap-tempo run.
+const TAP_RESET_SEC = 2;
+
+const GRID_SOURCE_LABELS: Record<ImportedGrid['source'], string> = {
+  rekordbox: 'Rekordbox',
+  traktor: 'Traktor',
+  serato: 'Serato',
+  midi: 'MIDI tempo map',
+};
+
+// Background ffmpeg passes run on imported videos, one clip at a time.
+type ClipAnalysisTask = { clipId: string; kind: 'shots' | 'motion' };
+
+const formatCutBars = (bars: number) => {
+  if (bars === 0.25) return '¼ bar';
+  if (bars === 0.5) return '½ bar';
+  return bars === 1 ? '1 bar' : `${bars} bars`;
+};
+
+const normalizeSyncSelection = (value: Partial<SyncSelection> | null | undefined): SyncSelection => ({
+  strategy: value?.strategy && Object.hasOwn(SYNC_STRATEGIES, value.strategy) ? value.strategy : DEFAULT_SYNC_SELECTION.strategy,
+  seed: Number.isInteger(value?.seed) ? value!.seed! >>> 0 : DEFAULT_SYNC_SELECTION.seed,
+  ...(typeof value?.pattern === 'string' && value.pattern.trim() ? { pattern: value.pattern } : {}),
+});
+
+const isCutLengthRange = (value: unknown): value is CutLengthRange => {
+  const range = value as Partial<CutLengthRange> | null;
+  return typeof range === 'object' &&
+    range !== null &&
+    typeof range.id === 'string' &&
+    Number.isFinite(range.startSec) &&
+    Number.isFinite(range.endSec) &&
+    Number.isFinite(range.bars) &&
+    range.bars > 0;
+};
+
+const normalizeCutRanges = (value: unknown): CutLengthRange[] =>
+  Array.isArray(value) ? value.filter(isCutLengthRange) : [];
+
+// Projects saved before time signatures existed were always 4/4.
+const normalizeTimeSignature = (value: Partial<TimeSignature> | null | undefined): TimeSignature => {
+  const beatsPerBar = Math.round(Number(value?.beatsPerBar));
+  const beatUnit = Math.round(Number(value?.beatUnit));
+  return {
+    beatsPerBar: beatsPerBar >= 1 && beatsPerBar <= 16 ? beatsPerBar : DEFAULT_TIME_SIGNATURE.beatsPerBar,
+    beatUnit: [2, 4, 8, 16].includes(beatUnit) ? beatUnit : DEFAULT_TIME_SIGNATURE.beatUnit,
+  };
+};
+
+// Keyboard shortcuts stay out of the way while typing in a field.
+const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName;
+  return (
+    tag === 'INPUT' ||
+    tag === 'TEXTAREA' ||
+    tag === 'SELECT' ||
+    target.isContentEditable
+  );
+};
 
 const App: React.FC = () => {
   // --- State ---
@@ -22,8 +120,16 @@ const App: React.FC = () => {
     { id: 'video-1', type: 'video', segments: [] },
     { id: 'audio-1', type: 'audio', segments: [] }
   ]);
-  const [beatGrid, setBeatGrid] = useState<BeatGrid>({ bpm: 120, offset: 0, beats: [] });
-  const [waveform, setWaveform] = useState<number[]>([]);
+  const [beatGrid, setBeatGrid] = useState<BeatGrid>({ bpm: 120, offset: 0, beats: [], tempoMap: [], barPhase: 0, edited: false });
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>(DEFAULT_TIME_SIGNATURE);
+  const beatsPerBar = timeSignature.beatsPerBar;
+  const [waveformPeaks, setWaveformPeaks] = useState<WaveformPeaks | null>(null);
+  const [songSections, setSongSections] = useState<SongSection[]>([]);
+  const [onsets, setOnsets] = useState<Onset[]>([]);
+  // Per-window loudness of the primary audio from the analysis worker; beat energy is read from it.
+  const [loudness, setLoudness] = useState<LoudnessEnvelope | null>(null);
+  const [cutRanges, setCutRanges] = useState<CutLengthRange[]>([]);
+  const [syncSelection, setSyncSelection] = useState<SyncSelection>(DEFAULT_SYNC_SELECTION);
   const [introSkipFrames, setIntroSkipFrames] = useState<number>(0);
   const [playbackState, setPlaybackState] = useState<PlaybackState>({
     isPlaying: false,
@@ -32,6 +138,8 @@ const App: React.FC = () => {
   });
   const [duration, setDuration] = useState<number>(30000); // 30s default
   const [zoom, setZoom] = useState<number>(DEFAULT_ZOOM);
+  const [snapResolution, setSnapResolution] = useState<SnapResolution>(DEFAULT_SNAP_RESOLUTION);
+  const [editMode, setEditMode] = useState<EditMode>(DEFAULT_EDIT_MODE);
   const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
   const [selectedMediaClipId, setSelectedMediaClipId] = useState<string | null>(null);
   const [mediaClipBars, setMediaClipBars] = useState<number>(4);
@@ -42,9 +150,24 @@ const App: React.FC = () => {
   const [autoSyncOpen, setAutoSyncOpen] = useState<boolean>(false);
   const [autoSyncBpm, setAutoSyncBpm] = useState<number>(120);
   const [autoSyncBars, setAutoSyncBars] = useState<number>(4);
+  const [autoSyncRhythm, setAutoSyncRhythm] = useState<'fixed' | 'dynamic' | 'onsets'>('fixed');
+  const [autoSyncOnsetSpacing, setAutoSyncOnsetSpacing] = useState<number>(1);
+  const [autoSyncOnsetStrength, setAutoSyncOnsetStrength] = useState<number>(0.3);
+  const [autoSyncSensitivity, setAutoSyncSensitivity] = useState<number>(0.5);
+  const [autoSyncMinBars, setAutoSyncMinBars] = useState<number>(0.5);
+  const [autoSyncMaxBars, setAutoSyncMaxBars] = useState<number>(4);
+  const [autoSyncOffsetMode, setAutoSyncOffsetMode] = useState<SourceOffsetMode>('start');
+  const [autoSyncSnapToShots, setAutoSyncSnapToShots] = useState<boolean>(true);
+  const [autoSyncShortClips, setAutoSyncShortClips] = useState<ShortClipMode>('fit');
+  const [autoSyncReport, setAutoSyncReport] = useState<{ segmentCount: number; stretched: StretchReportEntry[] } | null>(null);
+  const [clipAnalysisTask, setClipAnalysisTask] = useState<ClipAnalysisTask | null>(null);
   const [autoSyncIntroSkipFrames, setAutoSyncIntroSkipFrames] = useState<number>(0);
   const [autoSyncError, setAutoSyncError] = useState<string | null>(null);
   const [autoSyncAnalyzing, setAutoSyncAnalyzing] = useState<boolean>(false);
+  const [analysisProgress, setAnalysisProgress] = useState<Record<string, number>>({});
+  const [metronomeEnabled, setMetronomeEnabled] = useState<boolean>(false);
+  const [tapCount, setTapCount] = useState<number>(0);
+  const [gridImportStatus, setGridImportStatus] = useState<string | null>(null);
   const [exportOpen, setExportOpen] = useState<boolean>(false);
   const [exportResolution, setExportResolution] = useState<string>('1920x1080');
   const [exportMbps, setExportMbps] = useState<number>(12);
@@ -57,6 +180,8 @@ const App: React.FC = () => {
   const [projectName, setProjectName] = useState<string>('My Beat Video');
   const [projectIoStatus, setProjectIoStatus] = useState<string | null>(null);
   const [lastProjectPath, setLastProjectPath] = useState<string | null>(null);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false);
 
   // --- Refs for Audio Engine ---
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -64,14 +189,85 @@ const App: React.FC = () => {
   const scrubPreviewSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const masterAudioBufferRef = useRef<AudioBuffer | null>(null);
   const startTimeRef = useRef<number>(0);
+  const metronomeEnabledRef = useRef(false);
+  // Maps timeline seconds onto the AudioContext clock for the current play run.
+  const metronomeClockRef = useRef<{ ctxTime: number; timelineSec: number } | null>(null);
+  const clicksScheduledUntilRef = useRef(0);
+  // The play loop outlives renders; read the grid and bar length through these so
+  // tap-tempo and time signature edits are heard at once.
+  const beatGridRef = useRef<BeatGrid>(beatGrid);
+  beatGridRef.current = beatGrid;
+  const beatsPerBarRef = useRef(beatsPerBar);
+  beatsPerBarRef.current = beatsPerBar;
+  const metronomeNodesRef = useRef<OscillatorNode[]>([]);
+  const tapTimesRef = useRef<number[]>([]);
   const animationFrameRef = useRef<number>(0);
   const proxyJobsRef = useRef<Map<string, string>>(new Map());
+  const analysisJobsRef = useRef<Map<string, AnalysisJob>>(new Map());
   const reverseProxyJobsRef = useRef<Map<string, string>>(new Map());
   const reverseProxyDebounceRef = useRef<number | null>(null);
+  // One ffmpeg analysis job at a time; tasks that failed aren't retried this session.
+  const clipAnalysisJobRef = useRef<(ClipAnalysisTask & { jobId: string }) | null>(null);
+  const clipAnalysisFailedRef = useRef<Set<string>>(new Set());
+  // Latest editable state, so history can snapshot it from stable callbacks.
+  const editStateRef = useRef<EditSnapshot>({
+    tracks, beatGrid, timeSignature, introSkipFrames, clips, sections: songSections, cutRanges, syncSelection
+  });
+  editStateRef.current = {
+    tracks, beatGrid, timeSignature, introSkipFrames, clips, sections: songSections, cutRanges, syncSelection
+  };
+  const historyRef = useRef<EditHistory>(history);
+  historyRef.current = history;
   const defaultFadeIn = { enabled: false, startMs: 0, endMs: 500 };
   const defaultFadeOut = { enabled: false, startMs: -500, endMs: 0 };
 
   // --- Handlers ---
+  /** Call before applying an edit; same-key edits in quick succession become one step. */
+  const recordHistory = useCallback((label: string, coalesceKey?: string) => {
+    const before = editStateRef.current;
+    setHistory((prev) => recordStep(prev, label, before, coalesceKey));
+  }, []);
+
+  const restoreSnapshot = useCallback((snapshot: EditSnapshot) => {
+    const segmentIds = new Set(snapshot.tracks.flatMap((track) => track.segments.map((segment) => segment.id)));
+    const clipIds = new Set(snapshot.clips.map((clip) => clip.id));
+    setTracks(snapshot.tracks);
+    setBeatGrid(snapshot.beatGrid);
+    setTimeSignature(snapshot.timeSignature);
+    setIntroSkipFrames(snapshot.introSkipFrames);
+    setClips((prev) => mergeRestoredClips(snapshot.clips, prev));
+    setSongSections(snapshot.sections);
+    setCutRanges(snapshot.cutRanges);
+    setSyncSelection(snapshot.syncSelection);
+    setSelectedSegmentId((prev) => (prev && segmentIds.has(prev) ? prev : null));
+    setSelectedMediaClipId((prev) => (prev && clipIds.has(prev) ? prev : null));
+    setSwapMode(false);
+    setSwapSourceId(null);
+    setInsertBeforeMode(false);
+    setInsertBeforeSourceId(null);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const result = undoStep(historyRef.current, editStateRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  }, [restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const result = redoStep(historyRef.current, editStateRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  }, [restoreSnapshot]);
+
+  const handleJumpToHistory = useCallback((doneCount: number) => {
+    const result = jumpToStep(historyRef.current, editStateRef.current, doneCount);
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  }, [restoreSnapshot]);
+
   const clampZoom = useCallback(
     (value: number) => Math.min(TIMELINE_ZOOM_MAX, Math.max(TIMELINE_ZOOM_MIN, value)),
     []
@@ -257,6 +453,8 @@ const App: React.FC = () => {
 
   const handleImport = async (fileList?: FileList) => {
     const newClips: SourceClip[] = [];
+    // A new song replaces the beat grid the earlier edits were made against.
+    let replacedSong = false;
     const importClip = async (filePath: string, nameOverride?: string) => {
         const clipId = uuidv4();
         const isAudio = isAudioPath(filePath, nameOverride);
@@ -278,12 +476,11 @@ const App: React.FC = () => {
                if (!masterAudioBufferRef.current && duration > 0) {
                  const buffer = await decodeAudioWithFallback(urlCandidates);
                  masterAudioBufferRef.current = buffer;
-                 const analysis = analyzeBeats(buffer);
-                 setBeatGrid(analysis);
+                 replacedSong = true;
+                 setHistory(EMPTY_HISTORY);
                  setIntroSkipFrames(0);
-                 const waveformPoints = Math.min(4000, Math.max(600, Math.floor(buffer.duration * 60)));
-                 setWaveform(generateWaveform(buffer, waveformPoints));
                  setDuration(buffer.duration * 1000);
+                 void startBeatAnalysis(clipId, buffer);
 
                  setTracks(prev => prev.map(t =>
                     t.type === 'audio' ? {
@@ -336,6 +533,9 @@ const App: React.FC = () => {
         return;
     }
 
+    if (!replacedSong && newClips.length > 0) {
+        recordHistory(newClips.length === 1 ? `Import ${newClips[0].name}` : `Import ${newClips.length} clips`);
+    }
     setClips(prev => [...prev, ...newClips]);
     if (useProxies) {
         newClips.forEach((clip) => {
@@ -350,13 +550,35 @@ const App: React.FC = () => {
       clips: clips.map(({ objectUrl, ...rest }) => rest),
       tracks,
       beatGrid,
-      waveform,
+      timeSignature,
+      waveformPeaks: waveformPeaks ? packWaveformPeaks(waveformPeaks) : null,
+      sections: songSections,
+      onsets,
+      cutRanges,
+      syncSelection,
       introSkipFrames,
       duration,
       zoom,
+      snapResolution,
       useProxies
   });
 
+  // Projects only store coarse peaks and no loudness; both are rebuilt off the main thread.
+  const rebuildPeaksAndLoudness = useCallback(async (clipId: string, buffer: AudioBuffer) => {
+      const job = startAnalysis(buffer, { beatsPerBar: DEFAULT_TIME_SIGNATURE.beatsPerBar, detectBeats: false });
+      analysisJobsRef.current.set(clipId, job);
+      try {
+          const result = await job.promise;
+          if (!result) return;
+          setWaveformPeaks(result.waveformPeaks);
+          setLoudness(result.loudness);
+      } catch (error) {
+          console.warn('Failed to build waveform peaks and loudness', error);
+      } finally {
+          if (analysisJobsRef.current.get(clipId) === job) analysisJobsRef.current.delete(clipId);
+      }
+  }, []);
+
   const applyProjectPayload = useCallback(async (payload: SavedProject, filePath: string, silent?: boolean) => {
       const nextClips = Array.isArray(payload.clips)
           ? payload.clips.map((clip) => ({
@@ -370,22 +592,38 @@ const App: React.FC = () => {
               { id: 'video-1', type: 'video', segments: [] },
               { id: 'audio-1', type: 'audio', segments: [] }
           ];
-      const nextBeatGrid = payload.beatGrid ?? { bpm: 120, offset: 0, beats: [] };
+      const nextTimeSignature = normalizeTimeSignature(payload.timeSignature);
+      const nextBeatGrid = normalizeBeatGrid(payload.beatGrid, nextTimeSignature.beatsPerBar);
 
       setProjectName(payload.projectName || 'My Beat Video');
       setClips(nextClips);
       setTracks(nextTracks);
+      setTimeSignature(nextTimeSignature);
       setBeatGrid(nextBeatGrid);
-      setWaveform(Array.isArray(payload.waveform) ? payload.waveform : []);
+      setWaveformPeaks(normalizeWaveformPeaks(payload.waveformPeaks));
+      setSongSections(normalizeSongSections(payload.sections));
+      setOnsets(normalizeOnsets(payload.onsets));
+      setLoudness(null);
+      setCutRanges(normalizeCutRanges(payload.cutRanges));
+      setSyncSelection(normalizeSyncSelection(payload.syncSelection));
       setIntroSkipFrames(Number.isFinite(payload.introSkipFrames) ? payload.introSkipFrames : 0);
       setDuration(Number.isFinite(payload.duration) ? payload.duration : 30000);
       setZoom(clampZoom(Number.isFinite(payload.zoom) ? payload.zoom : DEFAULT_ZOOM));
+      setSnapResolution(
+          SNAP_RESOLUTION_OPTIONS.some(option => option.value === payload.snapResolution)
+              ? payload.snapResolution
+              : DEFAULT_SNAP_RESOLUTION
+      );
       setUseProxies(Boolean(payload.useProxies));
       setSelectedSegmentId(null);
       setSwapMode(false);
       setSwapSourceId(null);
+      setHistory(EMPTY_HISTORY);
       setPlaybackState(prev => ({ ...prev, isPlaying: false, currentTime: 0 }));
 
+      analysisJobsRef.current.forEach((job) => job.cancel());
+      analysisJobsRef.current.clear();
+      setGridImportStatus(null);
       masterAudioBufferRef.current = null;
       const primaryAudio = getPrimaryAudioClip(nextClips);
       if (primaryAudio) {
@@ -396,10 +634,7 @@ const App: React.FC = () => {
               ];
               const buffer = await decodeAudioWithFallback(urlCandidates);
               masterAudioBufferRef.current = buffer;
-              if (!payload.waveform || payload.waveform.length === 0) {
-                  const waveformPoints = Math.min(4000, Math.max(600, Math.floor(buffer.duration * 60)));
-                  setWaveform(generateWaveform(buffer, waveformPoints));
-              }
+              void rebuildPeaksAndLoudness(primaryAudio.id, buffer);
               if (!Number.isFinite(payload.duration) || payload.duration <= 0) {
                   setDuration(buffer.duration * 1000);
               }
@@ -413,7 +648,7 @@ const App: React.FC = () => {
       if (!silent) {
           setProjectIoStatus(`Loaded project from ${filePath}`);
       }
-  }, [clampZoom, decodeAudioWithFallback, toFileUrl, toPlaybackUrl]);
+  }, [clampZoom, decodeAudioWithFallback, rebuildPeaksAndLoudness, toFileUrl, toPlaybackUrl]);
 
   const loadProjectFromPath = useCallback(async (filePath: string, silent?: boolean) => {
       if (!window.electronAPI?.project?.load) {
@@ -506,6 +741,13 @@ const App: React.FC = () => {
           }
       });
       proxyJobsRef.current.clear();
+      if (clipAnalysisJobRef.current) {
+          cancelFfmpeg(clipAnalysisJobRef.current.jobId);
+      }
+      clipAnalysisFailedRef.current.clear();
+      analysisJobsRef.current.forEach((job) => job.cancel());
+      analysisJobsRef.current.clear();
+      setGridImportStatus(null);
       reverseProxyJobsRef.current.forEach((jobId) => {
           if (window.electronAPI?.proxy?.cancel) {
               cancelProxy(jobId);
@@ -518,10 +760,17 @@ const App: React.FC = () => {
           { id: 'video-1', type: 'video', segments: [] },
           { id: 'audio-1', type: 'audio', segments: [] }
       ]);
-      setBeatGrid({ bpm: 120, offset: 0, beats: [] });
-      setWaveform([]);
+      setBeatGrid({ bpm: 120, offset: 0, beats: [], tempoMap: [], barPhase: 0, edited: false });
+      setTimeSignature(DEFAULT_TIME_SIGNATURE);
+      setWaveformPeaks(null);
+      setSongSections([]);
+      setOnsets([]);
+      setLoudness(null);
+      setCutRanges([]);
+      setSyncSelection(DEFAULT_SYNC_SELECTION);
       setIntroSkipFrames(0);
       setDuration(30000);
+      setHistory(EMPTY_HISTORY);
       setSelectedSegmentId(null);
       setSelectedMediaClipId(null);
       setSwapMode(false);
@@ -537,19 +786,19 @@ const App: React.FC = () => {
 
   // Debounce reverse proxies so toggling/editing segments doesn't start renders too eagerly.
   useEffect(() => {
-    const isEditableTarget = (target: EventTarget | null) => {
-      if (!(target instanceof HTMLElement)) return false;
-      const tag = target.tagName;
-      return (
-        tag === 'INPUT' ||
-        tag === 'TEXTAREA' ||
-        tag === 'SELECT' ||
-        target.isContentEditable
-      );
-    };
-
     const handleKeyDown = (event: KeyboardEvent) => {
       if (!event.ctrlKey || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+        return;
+      }
+      if (key === 'z') {
+        event.preventDefault();
+        handleUndo();
+        return;
+      }
       if (event.key === '+' || event.key === '=') {
         event.preventDefault();
         setZoom((prev) => clampZoom(prev * 1.1));
@@ -562,7 +811,7 @@ const App: React.FC = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [clampZoom]);
+  }, [clampZoom, handleRedo, handleUndo]);
 
   useEffect(() => {
       const storedPath = localStorage.getItem(LAST_PROJECT_STORAGE_KEY);
@@ -575,6 +824,7 @@ const App: React.FC = () => {
   }, [loadProjectFromPath]);
 
   const handleDeleteClip = (id: string) => {
+      analysisJobsRef.current.get(id)?.cancel();
       const jobId = proxyJobsRef.current.get(id);
       if (jobId && window.electronAPI?.proxy?.cancel) {
           cancelProxy(jobId);
@@ -585,8 +835,16 @@ const App: React.FC = () => {
           cancelProxy(reverseJobId);
           reverseProxyJobsRef.current.delete(id);
       }
+      if (clipAnalysisJobRef.current?.clipId === id) {
+          cancelFfmpeg(clipAnalysisJobRef.current.jobId);
+      }
       const targetClip = clips.find(c => c.id === id);
       const hasRemainingAudio = clips.some(c => c.id !== id && c.type === 'audio');
+      if (targetClip?.type === 'audio' && !hasRemainingAudio) {
+          setHistory(EMPTY_HISTORY);
+      } else if (targetClip) {
+          recordHistory(`Delete ${targetClip.name}`);
+      }
       setClips(prev => prev.filter(c => c.id !== id));
       // Remove segments from timeline that use this clip
       setTracks(prev => prev.map(t => ({
@@ -595,8 +853,11 @@ const App: React.FC = () => {
       })));
       if (targetClip?.type === 'audio' && !hasRemainingAudio) {
           masterAudioBufferRef.current = null;
-          setWaveform([]);
-          setBeatGrid({ bpm: 120, offset: 0, beats: [] });
+          setWaveformPeaks(null);
+          setSongSections([]);
+          setOnsets([]);
+          setLoudness(null);
+          setBeatGrid({ bpm: 120, offset: 0, beats: [], tempoMap: [], barPhase: 0, edited: false });
           setIntroSkipFrames(0);
           setDuration(30000);
       }
@@ -605,6 +866,37 @@ const App: React.FC = () => {
       }
   };
 
+  const startBeatAnalysis = async (clipId: string, buffer: AudioBuffer) => {
+      const job = startAnalysis(buffer, {
+          beatsPerBar,
+          onProgress: (progress) => setAnalysisProgress(prev => ({ ...prev, [clipId]: progress }))
+      });
+      analysisJobsRef.current.set(clipId, job);
+      setAnalysisProgress(prev => ({ ...prev, [clipId]: 0 }));
+
+      try {
+          const result = await job.promise;
+          if (!result) return;
+          // A grid imported or edited while analysis ran wins over the detected one.
+          setWaveformPeaks(result.waveformPeaks);
+          setLoudness(result.loudness);
+          if (!result.analysis) return;
+          const analysis = result.analysis;
+          setBeatGrid((prev: BeatGrid) => (prev.edited ? prev : analysis.beatGrid));
+          setSongSections(analysis.sections);
+          setOnsets(analysis.onsets);
+      } catch (error) {
+          console.error('Beat analysis failed', error);
+      } finally {
+          analysisJobsRef.current.delete(clipId);
+          setAnalysisProgress(prev => {
+              const next = { ...prev };
+              delete next[clipId];
+              return next;
+          });
+      }
+  };
+
   const startProxyGeneration = async (clip: SourceClip) => {
       if (!window.electronAPI?.proxy?.run) return;
       if (clip.type !== 'video') return;
@@ -668,6 +960,33 @@ const App: React.FC = () => {
       }
   };
 
+  const startClipAnalysis = async (clip: SourceClip, kind: ClipAnalysisTask['kind']) => {
+      const jobId = uuidv4();
+      clipAnalysisJobRef.current = { clipId: clip.id, kind, jobId };
+      setClipAnalysisTask({ clipId: clip.id, kind });
+      // The proxy decodes much faster and has the same picture.
+      const request = {
+          jobId,
+          inputPath: clip.proxyPath ?? clip.filePath,
+          durationSec: clip.duration / 1000,
+      };
+      try {
+          if (kind === 'shots') {
+              const shotStarts = await detectShotStarts(request);
+              setClips(prev => prev.map(c => c.id === clip.id ? { ...c, shotStarts } : c));
+          } else {
+              const motion = await analyzeClipMotion(request);
+              setClips(prev => prev.map(c => c.id === clip.id ? { ...c, motion } : c));
+          }
+      } catch (error) {
+          console.warn(`Clip ${kind} analysis error`, error, clip.filePath);
+          clipAnalysisFailedRef.current.add(`${kind}:${clip.id}`);
+      } finally {
+          clipAnalysisJobRef.current = null;
+          setClipAnalysisTask(null);
+      }
+  };
+
   const resolvePreviewUrl = useCallback((clip: SourceClip, segment?: ClipSegment) => {
       if (segment?.reverse) {
           if (clip.reverseProxyPath) {
@@ -683,6 +1002,27 @@ const App: React.FC = () => {
       return toPlaybackUrl(clip.filePath);
   }, [useProxies, toPlaybackUrl]);
 
+  useEffect(() => {
+      if (!window.electronAPI?.ffmpeg?.run) return;
+      if (clipAnalysisTask || clipAnalysisJobRef.current) return;
+      const pending = clips.filter((clip) =>
+          clip.type === 'video' &&
+          !clip.filePath.startsWith('blob:') &&
+          !clip.filePath.startsWith('data:')
+      );
+      const isOpen = (clip: SourceClip, kind: ClipAnalysisTask['kind']) =>
+          !clipAnalysisFailedRef.current.has(`${kind}:${clip.id}`);
+      const shotClip = pending.find((clip) => !clip.shotStarts && isOpen(clip, 'shots'));
+      if (shotClip) {
+          void startClipAnalysis(shotClip, 'shots');
+          return;
+      }
+      const motionClip = pending.find((clip) => !clip.motion && isOpen(clip, 'motion'));
+      if (motionClip) {
+          void startClipAnalysis(motionClip, 'motion');
+      }
+  }, [clips, clipAnalysisTask]);
+
   useEffect(() => {
       if (!useProxies) return;
       clips.forEach((clip) => {
@@ -727,6 +1067,7 @@ const App: React.FC = () => {
   }, [clips, tracks]);
 
   const handleRemoveSegment = (id: string) => {
+      recordHistory('Remove segment');
       let nextSelectionId: string | null = null;
       if (selectedSegmentId === id) {
           const trackWithTarget = tracks.find(t => t.segments.some(s => s.id === id));
@@ -746,12 +1087,12 @@ const App: React.FC = () => {
               return { ...t, segments: t.segments.filter(s => s.id !== id) };
           }
           const orderedSegments = [...t.segments].sort((a, b) => a.timelineStart - b.timelineStart);
-          const orderById = new Map(orderedSegments.map((segment, index) => [segment.id, index]));
-          const targetIndex = orderById.get(id) ?? -1;
+          const rippled = getRippleRange(orderedSegments, orderedSegments.indexOf(target)).ids;
+          // Outside ripple mode the segment leaves a gap.
           const nextSegments = t.segments
               .filter(s => s.id !== id)
               .map(s => {
-                  if (targetIndex >= 0 && (orderById.get(s.id) ?? -1) > targetIndex) {
+                  if (editMode === 'ripple' && rippled.has(s.id)) {
                       return { ...s, timelineStart: s.timelineStart - target.duration };
                   }
                   return s;
@@ -774,6 +1115,7 @@ const App: React.FC = () => {
   };
 
   const handleSwapSegments = (sourceId: string, targetId: string) => {
+      recordHistory('Swap segments');
       setTracks(prev => {
           const sourceTrack = prev.find(t => t.segments.some(s => s.id === sourceId));
           const targetTrack = prev.find(t => t.segments.some(s => s.id === targetId));
@@ -855,15 +1197,18 @@ const App: React.FC = () => {
       const targetTrack = tracks.find(t => t.segments.some(s => s.id === targetSegmentId));
       if (!targetTrack || targetTrack.type !== 'video') return;
 
-      const barLengthSec = (60 / beatGrid.bpm) * BEATS_PER_BAR;
-      const barDurationMs = Number.isFinite(barLengthSec) ? barLengthSec * 1000 : 0;
+      const targetSegment = targetTrack.segments.find(s => s.id === targetSegmentId);
       const requestedBars = Number.isFinite(mediaClipBars) ? mediaClipBars : 4;
       const clampedBars = Math.min(32, Math.max(0.25, requestedBars));
-      const desiredDuration = barDurationMs > 0 ? clampedBars * barDurationMs : clip.duration;
+      const spanSec = targetSegment
+          ? getBeatSpanSec(beatGrid, targetSegment.timelineStart / 1000, clampedBars * beatsPerBar)
+          : NaN;
+      const desiredDuration = Number.isFinite(spanSec) && spanSec > 0 ? spanSec * 1000 : clip.duration;
       const durationMs = Math.min(clip.duration, Math.max(1, desiredDuration));
 
       const newSegmentId = uuidv4();
 
+      recordHistory(`Insert ${clip.name}`);
       setTracks(prev => prev.map(t => {
           const targetIndex = t.segments.findIndex(s => s.id === targetSegmentId);
           if (targetIndex === -1) return t;
@@ -871,14 +1216,6 @@ const App: React.FC = () => {
           const targetSegment = t.segments[targetIndex];
           const insertionTime = targetSegment.timelineStart;
 
-          // Shift segments that are at or after the target position
-          const nextSegments = t.segments.map(s => {
-              if (s.timelineStart >= insertionTime) {
-                  return { ...s, timelineStart: s.timelineStart + durationMs };
-              }
-              return s;
-          });
-
           const newSegment: ClipSegment = {
               id: newSegmentId,
               sourceClipId: clip.id,
@@ -891,6 +1228,28 @@ const App: React.FC = () => {
               fadeOut: { ...defaultFadeOut }
           };
 
+          if (editMode !== 'ripple') {
+              // Overwrite the start of the target instead of pushing the rest of the track;
+              // a target shorter than the new segment is replaced outright.
+              const split = splitSegment(
+                  targetSegment,
+                  insertionTime + durationMs,
+                  clips.find(c => c.id === targetSegment.sourceClipId)
+              );
+              const otherSegments = t.segments.filter(s => s.id !== targetSegmentId);
+              return split
+                  ? { ...t, segments: [...otherSegments, split[1], newSegment] }
+                  : { ...t, segments: [...otherSegments, { ...newSegment, duration: targetSegment.duration }] };
+          }
+
+          // Shift segments that are at or after the target position
+          const nextSegments = t.segments.map(s => {
+              if (s.timelineStart >= insertionTime) {
+                  return { ...s, timelineStart: s.timelineStart + durationMs };
+              }
+              return s;
+          });
+
           return { ...t, segments: [...nextSegments, newSegment] };
       }));
 
@@ -924,6 +1283,12 @@ const App: React.FC = () => {
       setSwapSourceId(null);
   };
 
+  const handleUpdateClip = (id: string, updates: Partial<SourceClip>) => {
+      const clip = clips.find(c => c.id === id);
+      recordHistory(`Edit ${clip?.name ?? 'clip'}`, `clip:${id}:${Object.keys(updates).join(',')}`);
+      setClips(prev => prev.map(clip => (clip.id === id ? { ...clip, ...updates } : clip)));
+  };
+
   const handleAddClipToTimeline = (clipId: string) => {
       const clip = clips.find(c => c.id === clipId);
       if (!clip || clip.type !== 'video') return;
@@ -933,19 +1298,20 @@ const App: React.FC = () => {
           const nextClip = clips.slice(currentIndex + 1).find(c => c.type === 'video');
           return nextClip ? nextClip.id : null;
       })();
-      const barLengthSec = (60 / beatGrid.bpm) * BEATS_PER_BAR;
-      const barDurationMs = Number.isFinite(barLengthSec) ? barLengthSec * 1000 : 0;
       const requestedBars = Number.isFinite(mediaClipBars) ? mediaClipBars : 4;
       const clampedBars = Math.min(32, Math.max(0.25, requestedBars));
-      const desiredDuration = barDurationMs > 0 ? clampedBars * barDurationMs : clip.duration;
-      const durationMs = Math.min(clip.duration, Math.max(1, desiredDuration));
       const introSkipMs = Math.max(0, introSkipFrames) / DEFAULT_FPS * 1000;
       const segmentId = uuidv4();
 
+      recordHistory(`Add ${clip.name}`);
       setTracks(prev => prev.map(t => {
           if (t.type !== 'video') return t;
           const lastEnd = t.segments.reduce((max, seg) => Math.max(max, seg.timelineStart + seg.duration), 0);
           const timelineStart = t.segments.length > 0 ? lastEnd : introSkipMs;
+          // Bar length follows the tempo map from wherever the clip lands.
+          const spanSec = getBeatSpanSec(beatGrid, timelineStart / 1000, clampedBars * beatsPerBar);
+          const desiredDuration = Number.isFinite(spanSec) && spanSec > 0 ? spanSec * 1000 : clip.duration;
+          const durationMs = Math.min(clip.duration, Math.max(1, desiredDuration));
           const nextSegment: ClipSegment = {
               id: segmentId,
               sourceClipId: clip.id,
@@ -975,6 +1341,7 @@ const App: React.FC = () => {
       setAutoSyncBpm(Number.isFinite(beatGrid.bpm) ? beatGrid.bpm : 120);
       setAutoSyncIntroSkipFrames(introSkipFrames);
       setAutoSyncError(null);
+      setAutoSyncReport(null);
       setAutoSyncOpen(true);
       setOptionsOpen(false);
   };
@@ -1111,56 +1478,115 @@ const App: React.FC = () => {
       }
   };
 
-  const applyAutoSyncSettings = () => {
+  /**
+   * Builds the auto-sync cut from the dialog settings. `check` only reports
+   * which segments would be slowed down or frozen, without applying anything.
+   */
+  const applyAutoSyncSettings = (selection: SyncSelection = syncSelection, mode: 'apply' | 'check' = 'apply') => {
       const videoClips = clips.filter(c => c.type === 'video');
       if (videoClips.length === 0) {
           setAutoSyncError('Add at least one video clip before auto-syncing.');
           return;
       }
 
-      const clampedBpm = Math.min(300, Math.max(30, Number(autoSyncBpm)));
       const clampedBars = Math.min(32, Math.max(1, Math.round(Number(autoSyncBars))));
       const nextIntroSkipFrames = Math.round(Number(autoSyncIntroSkipFrames));
+      const nextBeatGrid = buildAutoSyncPreviewGrid(autoSyncBpm, nextIntroSkipFrames);
+
+      if (nextBeatGrid.beats.length === 0 && autoSyncRhythm !== 'onsets') {
+          setAutoSyncError('No beats detected after applying settings.');
+          return;
+      }
+
+      let dynamic: DynamicCutOptions | null = null;
+      let energy: number[] | null = null;
+      if (autoSyncRhythm === 'dynamic' || selection.strategy === 'energy') {
+          if (!loudness) {
+              setAutoSyncError(autoSyncRhythm === 'dynamic'
+                  ? 'Dynamic rhythm needs the audio analysis. Wait for it to finish, or re-import the track.'
+                  : 'Matching motion to energy needs the audio analysis. Wait for it to finish, or re-import the track.');
+              return;
+          }
+          energy = computeBeatEnergy(loudness, nextBeatGrid.beats);
+      }
+      if (autoSyncRhythm === 'dynamic') {
+          dynamic = {
+              energy: energy!,
+              sensitivity: autoSyncSensitivity,
+              minBars: autoSyncMinBars,
+              maxBars: autoSyncMaxBars
+          };
+      }
 
-      const baseOffset = 0;
-      const nextIntroSkipSec = nextIntroSkipFrames / DEFAULT_FPS;
-      const rebuilt = buildBeatGrid(clampedBpm, baseOffset, duration / 1000);
-      const shiftedBeats = rebuilt.beats.map(beat => Math.max(0, beat + nextIntroSkipSec));
-      const nextBeatGrid = {
-          ...rebuilt,
-          offset: rebuilt.offset + nextIntroSkipSec,
-          beats: [...new Set(shiftedBeats)].sort((a, b) => a - b),
-          bpm: clampedBpm
+      // Section lengths first so custom ranges, listed after them, take precedence.
+      const lengthRanges: CutLengthRange[] = [
+          ...songSections
+              .filter((section) => section.cutBars !== undefined)
+              .map((section) => ({ id: section.id, startSec: section.startSec, endSec: section.endSec, bars: section.cutBars! })),
+          ...cutRanges
+      ];
+      const unknownPatternTokens = selection.pattern ? parseClipPattern(selection.pattern, videoClips).unknown : [];
+      if (unknownPatternTokens.length > 0) {
+          setAutoSyncError(`No clip name or tag matches ${unknownPatternTokens.map((token) => `"${token}"`).join(', ')} in the clip pattern.`);
+          return;
+      }
+      if (autoSyncRhythm === 'onsets' && onsets.length === 0) {
+          setAutoSyncError('No onsets detected yet. Wait for the audio analysis to finish.');
+          return;
+      }
+      // Locked segments stay where they are; the new cut fills the gaps around them.
+      const buildTrackSegments = (track: TimelineTrack) => {
+          const lockedSegments = track.segments.filter(segment => segment.locked);
+          const newSegments = autoSyncClips(videoClips, nextBeatGrid, duration, beatsPerBar, {
+              preferredBars: clampedBars,
+              lengthRanges,
+              dynamic,
+              selection,
+              offsetMode: autoSyncOffsetMode,
+              snapToShots: autoSyncSnapToShots,
+              energy,
+              lockedSegments,
+              onsetCuts: autoSyncRhythm === 'onsets'
+                  ? { onsets, minSpacingSec: autoSyncOnsetSpacing, minStrength: autoSyncOnsetStrength }
+                  : null,
+              shortClips: autoSyncShortClips
+          });
+          return [...lockedSegments, ...newSegments].sort((a, b) => a.timelineStart - b.timelineStart);
       };
 
-      if (nextBeatGrid.beats.length === 0) {
-          setAutoSyncError('No beats detected after applying settings.');
+      if (mode === 'check') {
+          const planned = tracks.filter(t => t.type === 'video').flatMap(buildTrackSegments);
+          setAutoSyncReport({ segmentCount: planned.length, stretched: findStretchedSegments(planned, videoClips) });
           return;
       }
 
+      recordHistory('Auto-sync');
       setBeatGrid(nextBeatGrid);
       setIntroSkipFrames(nextIntroSkipFrames);
-
-      const newSegments = autoSyncClips(videoClips, nextBeatGrid, duration, clampedBars);
-      setTracks(prev => prev.map(t =>
-        t.type === 'video' ? { ...t, segments: newSegments } : t
-      ));
+      setSyncSelection(selection);
+      setTracks(prev => prev.map(t => (t.type === 'video' ? { ...t, segments: buildTrackSegments(t) } : t)));
+      setAutoSyncReport(null);
       setAutoSyncOpen(false);
   };
 
-  const buildAutoSyncPreviewGrid = (nextBpm: number, nextIntroSkipFrames: number) => {
+  const buildAutoSyncPreviewGrid = (nextBpm: number, nextIntroSkipFrames: number): BeatGrid => {
       const clampedBpm = Math.min(300, Math.max(30, Number(nextBpm)));
       const normalizedIntroSkipFrames = Math.round(Number(nextIntroSkipFrames));
-      const baseOffset = 0;
+      const deltaSec = (normalizedIntroSkipFrames - introSkipFrames) / DEFAULT_FPS;
+      // Keep the grid the timeline shows (fitted offset, bar phase, tempo map, hand-edited
+      // beats) when the BPM wasn't touched; a new BPM means a constant grid from the same offset.
+      if (clampedBpm === beatGrid.bpm && beatGrid.beats.length > 0) {
+          return shiftBeatGrid(beatGrid, deltaSec, beatsPerBar);
+      }
       const introSkipSec = normalizedIntroSkipFrames / DEFAULT_FPS;
-      const rebuilt = buildBeatGrid(clampedBpm, baseOffset, duration / 1000);
-      const shiftedBeats = rebuilt.beats.map(beat => Math.max(0, beat + introSkipSec));
-      return {
-          ...rebuilt,
-          offset: rebuilt.offset + introSkipSec,
-          beats: [...new Set(shiftedBeats)].sort((a, b) => a - b),
-          bpm: clampedBpm
-      };
+      const baseOffset = beatGrid.offset - introSkipFrames / DEFAULT_FPS;
+      const rebuilt = shiftBeatGrid(
+          buildBeatGrid(clampedBpm, baseOffset, duration / 1000, beatsPerBar),
+          introSkipSec,
+          beatsPerBar
+      );
+      const currentDownbeat = getFirstDownbeatSec(beatGrid);
+      return currentDownbeat === null ? rebuilt : alignBarPhase(rebuilt, currentDownbeat + deltaSec, beatsPerBar);
   };
 
   const togglePlay = () => {
@@ -1171,6 +1597,41 @@ const App: React.FC = () => {
     }
   };
 
+  const stopMetronome = () => {
+    metronomeNodesRef.current.forEach((node) => {
+        try { node.stop(); } catch(e){}
+    });
+    metronomeNodesRef.current = [];
+  };
+
+  const startMetronomeAt = (ctx: AudioContext, timelineSec: number) => {
+    stopMetronome();
+    metronomeClockRef.current = { ctxTime: ctx.currentTime, timelineSec };
+    clicksScheduledUntilRef.current = timelineSec - 0.001;
+  };
+
+  // Called every animation frame; clicks go onto the audio clock slightly ahead of time
+  // so they stay sample-accurate no matter how late the frame runs.
+  const scheduleMetronomeClicks = (ctx: AudioContext) => {
+    const clock = metronomeClockRef.current;
+    if (!clock) return;
+    const grid = beatGridRef.current;
+    const horizonSec = clock.timelineSec + (ctx.currentTime + METRONOME_LOOKAHEAD_SEC - clock.ctxTime);
+    let idx = grid.beats.findIndex((beat) => beat > clicksScheduledUntilRef.current);
+    while (idx >= 0 && idx < grid.beats.length && grid.beats[idx] <= horizonSec) {
+        const when = clock.ctxTime + (grid.beats[idx] - clock.timelineSec);
+        if (metronomeEnabledRef.current && when >= ctx.currentTime) {
+            const node = scheduleClick(ctx, when, isDownbeat(grid, idx, beatsPerBarRef.current));
+            node.onended = () => {
+                metronomeNodesRef.current = metronomeNodesRef.current.filter((item) => item !== node);
+            };
+            metronomeNodesRef.current.push(node);
+        }
+        idx += 1;
+    }
+    clicksScheduledUntilRef.current = horizonSec;
+  };
+
   const play = () => {
     if (!audioContextRef.current) {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -1200,6 +1661,7 @@ const App: React.FC = () => {
     if (masterAudioBufferRef.current) {
         startAudioAt(playbackState.currentTime);
     }
+    startMetronomeAt(ctx, playbackState.currentTime / 1000);
 
     startTimeRef.current = performance.now() - playbackState.currentTime;
     setPlaybackState(prev => ({ ...prev, isPlaying: true }));
@@ -1217,7 +1679,9 @@ const App: React.FC = () => {
             if (masterAudioBufferRef.current && audioSourceNodeRef.current) {
                 startAudioAt(0);
             }
+            startMetronomeAt(ctx, 0);
         }
+        scheduleMetronomeClicks(ctx);
 
         setPlaybackState(prev => ({ ...prev, currentTime: newTime }));
         animationFrameRef.current = requestAnimationFrame(loop);
@@ -1230,6 +1694,10 @@ const App: React.FC = () => {
     if (audioSourceNodeRef.current) {
         try { audioSourceNodeRef.current.stop(); } catch(e){}
     }
+    stopMetronome();
+    metronomeClockRef.current = null;
+    tapTimesRef.current = [];
+    setTapCount(0);
     setPlaybackState(prev => ({ ...prev, isPlaying: false }));
   };
 
@@ -1277,22 +1745,33 @@ const App: React.FC = () => {
   };
 
   const handleUpdateSegment = (id: string, updates: Partial<ClipSegment>) => {
+      const fields = Object.keys(updates).join(', ');
+      recordHistory(`Edit segment ${fields}`, `segment:${id}:${fields}`);
       setTracks(prev => prev.map(t => {
           const target = t.segments.find(s => s.id === id);
           if (!target) {
               return t;
           }
 
-          const nextDuration = updates.duration ?? target.duration;
-          const delta = nextDuration - target.duration;
           const orderedSegments = [...t.segments].sort((a, b) => a.timelineStart - b.timelineStart);
-          const orderById = new Map(orderedSegments.map((segment, index) => [segment.id, index]));
-          const targetIndex = orderById.get(id) ?? -1;
+          const targetIndex = orderedSegments.indexOf(target);
+          const ripple = getRippleRange(orderedSegments, targetIndex);
+          const requestedDuration = updates.duration ?? target.duration;
+          // Later segments move with the end in ripple mode, until they reach a locked one;
+          // otherwise the end stops at the next segment.
+          const nextStart = orderedSegments[targetIndex + 1]?.timelineStart ?? Infinity;
+          const maxDuration = editMode === 'ripple'
+              ? target.duration + ripple.maxShift
+              : nextStart - target.timelineStart;
+          const nextDuration = requestedDuration <= target.duration
+              ? requestedDuration
+              : Math.max(target.duration, Math.min(requestedDuration, maxDuration));
+          const delta = editMode === 'ripple' ? nextDuration - target.duration : 0;
           const shiftedSegments = t.segments.map(s => {
               if (s.id === id) {
                   return { ...s, ...updates, duration: nextDuration };
               }
-              if (delta !== 0 && targetIndex >= 0 && (orderById.get(s.id) ?? -1) > targetIndex) {
+              if (delta !== 0 && ripple.ids.has(s.id)) {
                   return { ...s, timelineStart: s.timelineStart + delta };
               }
               return s;
@@ -1302,7 +1781,64 @@ const App: React.FC = () => {
       }));
   };
 
+  // The timeline hands over the whole track, since roll, ripple and slide edits change neighbors too.
+  const handleDragSegment = (trackId: string, mode: SegmentDragMode, segments: ClipSegment[]) => {
+      const action = mode === 'move' ? (editMode === 'slip' ? 'Slip' : editMode === 'slide' ? 'Slide' : 'Move') : 'Trim';
+      const modeLabel = editMode === 'ripple' || editMode === 'roll' ? ` (${editMode})` : '';
+      recordHistory(`${action} segment${mode === 'move' ? '' : modeLabel}`);
+      setTracks(prev => prev.map(t => (t.id === trackId ? { ...t, segments } : t)));
+  };
+
+  const replaceSegmentWithSplits = useCallback((segment: ClipSegment, timesMs: number[], label: string) => {
+      const pieces = splitSegmentAtTimes(segment, timesMs, clips.find(c => c.id === segment.sourceClipId));
+      if (pieces.length < 2) return;
+      recordHistory(label);
+      setTracks(prev => prev.map(t => (
+          t.segments.some(s => s.id === segment.id)
+              ? { ...t, segments: t.segments.flatMap(s => (s.id === segment.id ? pieces : [s])) }
+              : t
+      )));
+  }, [clips, recordHistory]);
+
+  // The selected video segment when the playhead is inside it, otherwise the one under the playhead.
+  const handleSplitAtPlayhead = useCallback(() => {
+      const timeMs = playbackState.currentTime;
+      const contains = (segment: ClipSegment) =>
+          segment.timelineStart < timeMs && timeMs < segment.timelineStart + segment.duration;
+      const videoSegments = tracks.find(t => t.type === 'video')?.segments ?? [];
+      const selected = videoSegments.find(s => s.id === selectedSegmentId);
+      const target = selected && contains(selected) ? selected : videoSegments.find(contains);
+      if (target) replaceSegmentWithSplits(target, [timeMs], 'Split at playhead');
+  }, [playbackState.currentTime, replaceSegmentWithSplits, selectedSegmentId, tracks]);
+
+  const handleSplitOnBeats = (id: string) => {
+      const segment = tracks.flatMap(t => t.segments).find(s => s.id === id);
+      if (!segment) return;
+      replaceSegmentWithSplits(segment, beatGrid.beats.map(beat => beat * 1000), 'Split on beats');
+  };
+
+  // Moves the segment (start) or its end by one beat at that point in the song, following the edit mode.
+  const handleNudgeSegment = (id: string, edge: 'start' | 'end', beats: 1 | -1) => {
+      const track = tracks.find(t => t.segments.some(s => s.id === id));
+      const segment = track?.segments.find(s => s.id === id);
+      if (!track || !segment) return;
+      const edgeSec = (edge === 'start' ? segment.timelineStart : segment.timelineStart + segment.duration) / 1000;
+      const beatMs = (60 / getBpmAt(beatGrid, beats > 0 ? edgeSec : Math.max(0, edgeSec - 0.001))) * 1000;
+      // Nudging moves the segment itself, so a slip doesn't apply.
+      const segments = applyTrackEdit(
+          track,
+          id,
+          edge === 'start' ? 'move' : 'trim-end',
+          editMode === 'slip' ? 'standard' : editMode,
+          beats * beatMs,
+          clips
+      );
+      recordHistory(edge === 'start' ? 'Nudge segment' : 'Nudge segment end');
+      setTracks(prev => prev.map(t => (t.id === track.id ? { ...t, segments } : t)));
+  };
+
   const handleUpdateIntroSkipFrames = (nextFrames: number) => {
+      recordHistory('Change intro skip', 'introSkip');
       if (beatGrid.beats.length === 0) {
           setIntroSkipFrames(Math.round(nextFrames));
           return;
@@ -1314,39 +1850,215 @@ const App: React.FC = () => {
           return;
       }
       const deltaSec = deltaFrames / DEFAULT_FPS;
-       setBeatGrid((prev: BeatGrid) => {
-           const shiftedBeats = prev.beats.map(beat => Math.max(0, beat + (deltaSec as number)));
-           return {
-               ...prev,
-               offset: prev.offset + (deltaSec as number),
-               beats: [...new Set(shiftedBeats)].sort((a: number, b: number) => a - b)
-           };
-       });
+      setBeatGrid((prev: BeatGrid) => shiftBeatGrid(prev, deltaSec, beatsPerBar));
       setIntroSkipFrames(clampedFrames);
   };
 
-  const handleUpdateBpm = useCallback((nextBpm: number) => {
+  // anchorSec puts a beat at that time (e.g. from tap tempo); by default the current offset is kept.
+  const handleUpdateBpm = useCallback((nextBpm: number, anchorSec?: number) => {
       if (!Number.isFinite(nextBpm)) return;
       const clampedBpm = Math.min(300, Math.max(30, nextBpm));
       const introSkipSec = introSkipFrames / DEFAULT_FPS;
-      setBeatGrid(prev => {
-          const baseOffset = prev.offset - introSkipSec;
-          const rebuilt = buildBeatGrid(clampedBpm, baseOffset, duration / 1000);
-          const shiftedBeats = rebuilt.beats
-              .map(beat => Math.max(0, beat + introSkipSec));
-          return {
-              ...rebuilt,
-              offset: rebuilt.offset + introSkipSec,
-              beats: [...new Set(shiftedBeats)].sort((a, b) => a - b),
-          };
+      recordHistory(`Set tempo to ${clampedBpm.toFixed(2)} BPM`, 'bpm');
+      setBeatGrid((prev: BeatGrid) => {
+          const baseOffset = (Number.isFinite(anchorSec) ? anchorSec! : prev.offset) - introSkipSec;
+          const rebuilt = shiftBeatGrid(
+              buildBeatGrid(clampedBpm, baseOffset, duration / 1000, beatsPerBar),
+              introSkipSec,
+              beatsPerBar
+          );
+          const currentDownbeat = getFirstDownbeatSec(prev);
+          return currentDownbeat === null ? rebuilt : alignBarPhase(rebuilt, currentDownbeat, beatsPerBar);
       });
-  }, [duration, introSkipFrames]);
+  }, [duration, introSkipFrames, beatsPerBar, recordHistory]);
+
+  const handleTapTempo = useCallback(() => {
+      if (!playbackState.isPlaying) return;
+      const tapSec = (performance.now() - startTimeRef.current) / 1000;
+      const taps = tapTimesRef.current;
+      const last = taps[taps.length - 1];
+      // Start over after a long pause or when playback looped back to the start.
+      tapTimesRef.current = last !== undefined && tapSec > last && tapSec - last <= TAP_RESET_SEC
+          ? [...taps, tapSec]
+          : [tapSec];
+      setTapCount(tapTimesRef.current.length);
+      const estimate = estimateTapTempo(tapTimesRef.current);
+      if (estimate) {
+          handleUpdateBpm(estimate.bpm, estimate.anchorSec);
+      }
+  }, [playbackState.isPlaying, handleUpdateBpm]);
+
+  // Tap tempo: T while playing.
+  useEffect(() => {
+      const handleKeyDown = (event: KeyboardEvent) => {
+          if (event.ctrlKey || event.altKey || event.metaKey || event.key.toLowerCase() !== 't') return;
+          if (isEditableTarget(event.target)) return;
+          event.preventDefault();
+          handleTapTempo();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleTapTempo]);
+
+  // Split at the playhead: S.
+  useEffect(() => {
+      const handleKeyDown = (event: KeyboardEvent) => {
+          if (event.ctrlKey || event.altKey || event.metaKey || event.key.toLowerCase() !== 's') return;
+          if (isEditableTarget(event.target)) return;
+          event.preventDefault();
+          handleSplitAtPlayhead();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleSplitAtPlayhead]);
+
+  const handleToggleMetronome = () => {
+      const next = !metronomeEnabled;
+      metronomeEnabledRef.current = next;
+      if (!next) stopMetronome();
+      setMetronomeEnabled(next);
+  };
+
+  const handleRotateBarPhase = useCallback((steps: number) => {
+      recordHistory('Shift bar phase');
+      setBeatGrid((prev: BeatGrid) => rotateBarPhase(prev, steps, beatsPerBar));
+  }, [beatsPerBar, recordHistory]);
+
+  const handleMoveBeat = useCallback((beatIndex: number, timeSec: number) => {
+      recordHistory('Move beat', `beat:${beatIndex}`);
+      setBeatGrid((prev: BeatGrid) => moveBeat(prev, beatIndex, timeSec, beatsPerBar));
+  }, [beatsPerBar, recordHistory]);
+
+  const handleAddBeat = useCallback((timeSec: number) => {
+      recordHistory('Add beat');
+      setBeatGrid((prev: BeatGrid) => addBeat(prev, timeSec, beatsPerBar));
+  }, [beatsPerBar, recordHistory]);
+
+  const handleRemoveBeat = useCallback((beatIndex: number) => {
+      recordHistory('Remove beat');
+      setBeatGrid((prev: BeatGrid) => removeBeat(prev, beatIndex, beatsPerBar));
+  }, [beatsPerBar, recordHistory]);
+
+  const applyImportedGrid = (imported: ImportedGrid) => {
+      const durationSec = duration / 1000;
+      const rebuilt = buildBeatGridFromTempoMap(imported.tempoMap, durationSec, beatsPerBar);
+      const aligned = imported.downbeatSec === null
+          ? rebuilt
+          : alignBarPhase(rebuilt, imported.downbeatSec, beatsPerBar);
+      recordHistory(`Import ${GRID_SOURCE_LABELS[imported.source]} grid`);
+      // Imported grids are absolute, so the intro skip no longer applies.
+      setIntroSkipFrames(0);
+      setBeatGrid({ ...aligned, edited: true });
+      const sections = imported.tempoMap.length;
+      setGridImportStatus(
+          `Imported ${sections === 1 ? `${aligned.bpm.toFixed(2)} BPM` : `${sections} tempo sections`} from ${GRID_SOURCE_LABELS[imported.source]}.`
+      );
+  };
+
+  const handleImportBeatGridFile = async (file: File) => {
+      const audioClip = getPrimaryAudioClip(clips);
+      if (!audioClip) {
+          setGridImportStatus('Import the audio track first.');
+          return;
+      }
+      try {
+          const grids = parseBeatGridFile(file.name, await file.arrayBuffer());
+          const match = findImportedGrid(grids, audioClip);
+          if (!match) {
+              throw new Error(`No grid for ${audioClip.name} in ${file.name}.`);
+          }
+          applyImportedGrid(match);
+      } catch (error) {
+          setGridImportStatus(error instanceof Error ? error.message : 'Beat grid import failed.');
+      }
+  };
+
+  const handleImportSeratoGrid = async () => {
+      const audioClip = getPrimaryAudioClip(clips);
+      if (!audioClip) {
+          setGridImportStatus('Import the audio track first.');
+          return;
+      }
+      try {
+          const response = await fetch(toFileUrl(audioClip.filePath));
+          if (!response.ok) {
+              throw new Error(`Failed to read file (${response.status})`);
+          }
+          const grid = parseSeratoBeatGrid(await response.arrayBuffer());
+          if (!grid) {
+              throw new Error(`${audioClip.name} has no Serato beat grid.`);
+          }
+          applyImportedGrid(grid);
+      } catch (error) {
+          setGridImportStatus(error instanceof Error ? error.message : 'Beat grid import failed.');
+      }
+  };
+
+  const handleRenameSection = useCallback((id: string, name: string) => {
+      const trimmed = name.trim();
+      const section = editStateRef.current.sections.find((item) => item.id === id);
+      if (!trimmed || !section || section.name === trimmed) return;
+      recordHistory('Rename section');
+      setSongSections((prev: SongSection[]) => prev.map(section => (section.id === id ? { ...section, name: trimmed } : section)));
+  }, [recordHistory]);
+
+  const handleSetSectionCutBars = (id: string, bars: number | undefined) => {
+      recordHistory('Change section cut length', `section:${id}:cutBars`);
+      setSongSections((prev: SongSection[]) => prev.map((section) => {
+          if (section.id !== id) return section;
+          const { cutBars, ...rest } = section;
+          return bars === undefined ? rest : { ...rest, cutBars: bars };
+      }));
+  };
+
+  const handleAddCutRange = () => {
+      const startSec = playbackState.currentTime / 1000;
+      const barSec = (60 / beatGrid.bpm) * beatsPerBar;
+      const endSec = Math.min(duration / 1000, startSec + barSec * 8);
+      if (endSec <= startSec) return;
+      recordHistory('Add cut range');
+      setCutRanges((prev: CutLengthRange[]) => [...prev, { id: uuidv4(), startSec, endSec, bars: 1 }]);
+  };
+
+  const handleUpdateCutRange = (id: string, updates: Partial<CutLengthRange>) => {
+      const fields = Object.keys(updates).join(', ');
+      recordHistory(`Edit cut range ${fields}`, `cutRange:${id}:${fields}`);
+      setCutRanges((prev: CutLengthRange[]) => prev.map((range) => (range.id === id ? { ...range, ...updates } : range)));
+  };
+
+  const handleRemoveCutRange = (id: string) => {
+      recordHistory('Remove cut range');
+      setCutRanges((prev: CutLengthRange[]) => prev.filter((range) => range.id !== id));
+  };
+
+  const handleResizeSection = useCallback((id: string, edge: 'start' | 'end', timeSec: number) => {
+      recordHistory('Resize section', `section:${id}:${edge}`);
+      setSongSections((prev: SongSection[]) => resizeSongSection(prev, id, edge, timeSec, beatGrid.beats, duration / 1000));
+  }, [beatGrid.beats, duration, recordHistory]);
+
+  // Dialog edits of the clip order; typing into one field forms a single undo step.
+  const handleUpdateSyncSelection = (updates: Partial<SyncSelection>) => {
+      const fields = Object.keys(updates).join(', ');
+      recordHistory(`Change auto-sync ${fields}`, `sync:${fields}`);
+      setSyncSelection(prev => ({ ...prev, ...updates }));
+  };
 
   const handleUpdateBarLength = useCallback((barLengthSec: number) => {
       if (!Number.isFinite(barLengthSec) || barLengthSec <= 0) return;
-      const nextBpm = (60 * BEATS_PER_BAR) / barLengthSec;
+      const nextBpm = (60 * beatsPerBar) / barLengthSec;
       handleUpdateBpm(nextBpm);
-  }, [handleUpdateBpm]);
+  }, [handleUpdateBpm, beatsPerBar]);
+
+  const handleUpdateTimeSignature = useCallback((next: TimeSignature) => {
+      const normalized = normalizeTimeSignature(next);
+      recordHistory('Change time signature');
+      setTimeSignature(normalized);
+      // Keep the current "1" where it is; only the bar length around it changes.
+      setBeatGrid((prev: BeatGrid) => {
+          const currentDownbeat = getFirstDownbeatSec(prev);
+          return currentDownbeat === null ? prev : alignBarPhase(prev, currentDownbeat, normalized.beatsPerBar);
+      });
+  }, [recordHistory]);
 
   // --- Export Logic (Native FFmpeg) ---
   const handleExport = async () => {
@@ -1897,6 +2609,10 @@ const App: React.FC = () => {
             playbackState={playbackState} 
             onTogglePlay={togglePlay} 
             onJumpToStart={handleJumpToStart}
+            metronomeEnabled={metronomeEnabled}
+            onToggleMetronome={handleToggleMetronome}
+            tapCount={tapCount}
+            onTapTempo={handleTapTempo}
             onExport={openExportDialog}
             onAutoSync={openAutoSyncDialog}
             canSync={clips.some(c => c.type === 'video') && beatGrid.beats.length > 0}
@@ -1917,16 +2633,24 @@ const App: React.FC = () => {
             canLoadProject={canLoadProject}
             canLoadLastProject={canLoadLastProject}
             projectIoStatus={projectIoStatus}
+            history={history}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onJumpToHistory={handleJumpToHistory}
+            historyOpen={historyOpen}
+            onToggleHistory={() => setHistoryOpen(prev => !prev)}
         />
 
         <div className="flex flex-1 overflow-hidden">
             {/* Left: Media Pool */}
             <MediaPool
                 clips={clips}
+                analysisProgress={analysisProgress}
                 onImport={handleImport}
                 onDelete={handleDeleteClip}
                 selectedClipId={selectedMediaClipId}
                 onSelectClip={handleSelectMediaClip}
+                onUpdateClip={handleUpdateClip}
             />
 
             {/* Center: Preview Stage */}
@@ -1943,6 +2667,14 @@ const App: React.FC = () => {
                 </div>
                 
                 {/* Bottom: Timeline */}
+                <TimelineToolbar
+                    zoom={zoom}
+                    onZoomChange={handleZoomChange}
+                    snapResolution={snapResolution}
+                    onSnapResolutionChange={setSnapResolution}
+                    editMode={editMode}
+                    onEditModeChange={setEditMode}
+                />
                 <Timeline 
                     tracks={tracks} 
                     clips={clips}
@@ -1952,12 +2684,24 @@ const App: React.FC = () => {
                         ? buildAutoSyncPreviewGrid(autoSyncBpm, autoSyncIntroSkipFrames)
                         : beatGrid
                     }
-                    waveform={waveform}
+                    timeSignature={timeSignature}
+                    waveformPeaks={waveformPeaks}
+                    sections={songSections}
+                    onsets={onsets}
+                    onRenameSection={handleRenameSection}
+                    onResizeSection={handleResizeSection}
                     zoom={zoom}
                     duration={duration}
+                    snapResolution={snapResolution}
+                    editMode={editMode}
                     onSeek={handleSeek}
             onZoomChange={handleZoomChange}
             onSelectSegment={handleSelectSegment}
+            onMoveBeat={handleMoveBeat}
+            onAddBeat={handleAddBeat}
+            onRemoveBeat={handleRemoveBeat}
+            onDragSegment={handleDragSegment}
+            onScrubPreview={playScrubPreview}
             selectedSegmentId={selectedSegmentId}
             insertBeforeMode={insertBeforeMode}
           />
@@ -1971,6 +2715,10 @@ const App: React.FC = () => {
             clips={clips}
             onUpdateSegment={handleUpdateSegment}
             onRemoveSegment={handleRemoveSegment}
+            onNudgeSegment={handleNudgeSegment}
+            playheadMs={playbackState.currentTime}
+            onSplitAtPlayhead={handleSplitAtPlayhead}
+            onSplitOnBeats={handleSplitOnBeats}
             swapMode={swapMode}
             swapSourceId={swapSourceId}
             onToggleSwapMode={handleToggleSwapMode}
@@ -1980,7 +2728,15 @@ const App: React.FC = () => {
             introSkipFrames={introSkipFrames}
             onUpdateIntroSkipFrames={handleUpdateIntroSkipFrames}
             bpm={beatGrid.bpm}
-            barLengthSec={(60 / beatGrid.bpm) * BEATS_PER_BAR}
+            tempoSegmentCount={beatGrid.tempoMap.length}
+            firstDownbeatSec={getFirstDownbeatSec(beatGrid)}
+            onRotateBarPhase={handleRotateBarPhase}
+            onImportBeatGridFile={handleImportBeatGridFile}
+            onImportSeratoGrid={handleImportSeratoGrid}
+            gridImportStatus={gridImportStatus}
+            timeSignature={timeSignature}
+            onUpdateTimeSignature={handleUpdateTimeSignature}
+            barLengthSec={(60 / beatGrid.bpm) * beatsPerBar}
             onUpdateBpm={handleUpdateBpm}
             onUpdateBarLength={handleUpdateBarLength}
             mediaClipBars={mediaClipBars}
@@ -2039,6 +2795,206 @@ const App: React.FC = () => {
                   </label>
                 </div>
 
+                <div>
+                  <span className="text-xs text-stone-400 uppercase tracking-wide">Cut rhythm</span>
+                  <div className="mt-2 grid grid-cols-3 gap-2">
+                    {(['fixed', 'dynamic', 'onsets'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setAutoSyncRhythm(mode)}
+                        className={`rounded border px-3 py-1.5 text-sm transition-colors ${
+                          autoSyncRhythm === mode
+                            ? 'border-amber-400 bg-amber-400/10 text-amber-300'
+                            : 'border-stone-700 text-stone-400 hover:text-stone-200'
+                        }`}
+                      >
+                        {mode === 'fixed' ? 'Fixed' : mode === 'dynamic' ? 'Dynamic' : 'Onsets'}
+                      </button>
+                    ))}
+                  </div>
+                  {autoSyncRhythm === 'dynamic' && (
+                    <div className="mt-3 space-y-3">
+                      <label className="block text-xs text-stone-400">
+                        Sensitivity ({Math.round(autoSyncSensitivity * 100)}%)
+                        <input
+                          type="range"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={autoSyncSensitivity}
+                          onChange={(e) => setAutoSyncSensitivity(Number(e.target.value))}
+                          className="mt-1 w-full accent-amber-500"
+                        />
+                      </label>
+                      <div className="grid grid-cols-2 gap-3">
+                        <label className="text-xs text-stone-400">
+                          Shortest cut
+                          <select
+                            value={autoSyncMinBars}
+                            onChange={(e) => setAutoSyncMinBars(Number(e.target.value))}
+                            className="mt-1 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200"
+                          >
+                            {CUT_LENGTH_OPTIONS.filter((bars) => bars <= autoSyncMaxBars).map((bars) => (
+                              <option key={bars} value={bars}>{formatCutBars(bars)}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="text-xs text-stone-400">
+                          Longest cut
+                          <select
+                            value={autoSyncMaxBars}
+                            onChange={(e) => setAutoSyncMaxBars(Number(e.target.value))}
+                            className="mt-1 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200"
+                          >
+                            {CUT_LENGTH_OPTIONS.filter((bars) => bars >= autoSyncMinBars).map((bars) => (
+                              <option key={bars} value={bars}>{formatCutBars(bars)}</option>
+                            ))}
+                          </select>
+                        </label>
+                      </div>
+                      <p className="text-xs text-stone-500 leading-relaxed">
+                        Loud, busy passages get the shortest cuts and calm ones the longest. Clip length above is ignored.
+                      </p>
+                    </div>
+                  )}
+                  {autoSyncRhythm === 'onsets' && (
+                    <div className="mt-3 space-y-3">
+                      <div className="grid grid-cols-2 gap-3">
+                        <label className="text-xs text-stone-400">
+                          Min spacing (s)
+                          <input
+                            type="number"
+                            min={0.1}
+                            step={0.1}
+                            value={autoSyncOnsetSpacing}
+                            onChange={(e) => setAutoSyncOnsetSpacing(Math.max(0.1, Number(e.target.value) || 0.1))}
+                            className="mt-1 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200"
+                          />
+                        </label>
+                        <label className="text-xs text-stone-400">
+                          Min strength ({Math.round(autoSyncOnsetStrength * 100)}%)
+                          <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={autoSyncOnsetStrength}
+                            onChange={(e) => setAutoSyncOnsetStrength(Number(e.target.value))}
+                            className="mt-2 w-full accent-amber-500"
+                          />
+                        </label>
+                      </div>
+                      <p className="text-xs text-stone-500 leading-relaxed">
+                        Cuts on the strongest hits instead of the beat grid, for music without a steady pulse.{' '}
+                        {onsets.length > 0
+                          ? `${selectCutOnsets(onsets, { onsets, minSpacingSec: autoSyncOnsetSpacing, minStrength: autoSyncOnsetStrength }, duration / 1000).length} cuts from ${onsets.length} onsets.`
+                          : 'No onsets detected yet.'}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-xs text-stone-400 uppercase tracking-wide">
+                    Clip order
+                    <select
+                      value={syncSelection.strategy}
+                      onChange={(e) => handleUpdateSyncSelection({ strategy: e.target.value as SyncStrategyId })}
+                      className="mt-2 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200 normal-case tracking-normal"
+                    >
+                      {Object.values(SYNC_STRATEGIES).map((strategy) => (
+                        <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs text-stone-400 uppercase tracking-wide">
+                    Seed
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={syncSelection.seed}
+                      onChange={(e) => handleUpdateSyncSelection({ seed: Math.max(0, Math.round(Number(e.target.value))) >>> 0 })}
+                      disabled={syncSelection.strategy === 'sequential' && autoSyncOffsetMode !== 'random'}
+                      className="mt-2 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200 disabled:opacity-50"
+                    />
+                  </label>
+                </div>
+                <label className="block text-xs text-stone-400 uppercase tracking-wide">
+                  Clip pattern
+                  <input
+                    type="text"
+                    value={syncSelection.pattern ?? ''}
+                    onChange={(e) => handleUpdateSyncSelection({ pattern: e.target.value })}
+                    placeholder="e.g. A B A C or hero * * *"
+                    className="mt-2 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200 normal-case tracking-normal"
+                  />
+                  <span className="block mt-1 normal-case tracking-normal text-stone-500">
+                    Repeats across the song. Refer to clips by tag or name (quote names with spaces); * lets the clip order choose.
+                  </span>
+                </label>
+                {syncSelection.strategy === 'energy' && (
+                  <p className="text-xs text-stone-500 leading-relaxed">
+                    High-motion, bright footage goes on loud passages and calm footage on breakdowns; this also picks where each clip starts.{' '}
+                    {clipAnalysisTask?.kind === 'motion'
+                      ? `Analyzing motion in ${clips.find((clip) => clip.id === clipAnalysisTask.clipId)?.name ?? 'clip'}…`
+                      : `${clips.filter((clip) => clip.type === 'video' && clip.motion).length}/${clips.filter((clip) => clip.type === 'video').length} clips analyzed.`}
+                  </p>
+                )}
+
+                <label className="block text-xs text-stone-400 uppercase tracking-wide">
+                  Source offset
+                  <select
+                    value={autoSyncOffsetMode}
+                    onChange={(e) => setAutoSyncOffsetMode(e.target.value as SourceOffsetMode)}
+                    className="mt-2 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200 normal-case tracking-normal"
+                  >
+                    <option value="start">Clip start</option>
+                    <option value="sequential">Continue where the last use ended</option>
+                    <option value="random">Random (seeded)</option>
+                    <option value="center">Centered</option>
+                    <option value="active">Most visually active</option>
+                  </select>
+                  {autoSyncOffsetMode === 'active' && (
+                    <span className="block mt-1 normal-case tracking-normal text-stone-500">
+                      {clipAnalysisTask?.kind === 'motion'
+                        ? `Analyzing motion in ${clips.find((clip) => clip.id === clipAnalysisTask.clipId)?.name ?? 'clip'}…`
+                        : `${clips.filter((clip) => clip.type === 'video' && clip.motion).length}/${clips.filter((clip) => clip.type === 'video').length} clips analyzed; the rest start centered.`}
+                    </span>
+                  )}
+                </label>
+
+                <label className="block text-xs text-stone-400 uppercase tracking-wide">
+                  Short clips
+                  <select
+                    value={autoSyncShortClips}
+                    onChange={(e) => setAutoSyncShortClips(e.target.value as ShortClipMode)}
+                    className="mt-2 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200 normal-case tracking-normal"
+                  >
+                    <option value="fit">Only in slots they can fill</option>
+                    <option value="skip">Skip clips shorter than the cut length</option>
+                    <option value="allow">Use anyway (slowed down to fit)</option>
+                  </select>
+                </label>
+
+                <label className="flex items-center justify-between gap-3 rounded border border-stone-800 bg-stone-900/40 px-3 py-2 text-xs text-stone-300">
+                  <span>
+                    Snap offsets to shot starts
+                    <span className="block text-stone-500">
+                      {clipAnalysisTask?.kind === 'shots'
+                        ? `Detecting shots in ${clips.find((clip) => clip.id === clipAnalysisTask.clipId)?.name ?? 'clip'}…`
+                        : `${clips.filter((clip) => clip.type === 'video' && clip.shotStarts).length}/${clips.filter((clip) => clip.type === 'video').length} clips have detected shots`}
+                    </span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={autoSyncSnapToShots}
+                    onChange={(e) => setAutoSyncSnapToShots(e.target.checked)}
+                    className="h-4 w-4 accent-amber-500"
+                  />
+                </label>
+
                 <label className="text-xs text-stone-400 uppercase tracking-wide">
                   Intro Skip (frames)
                   <input
@@ -2049,6 +3005,90 @@ const App: React.FC = () => {
                   />
                 </label>
 
+                <div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-stone-400 uppercase tracking-wide">Cut length by section</span>
+                    <button
+                      type="button"
+                      onClick={handleAddCutRange}
+                      className="text-xs text-amber-300 hover:text-amber-200"
+                      title="Add a range of 8 bars starting at the playhead"
+                    >
+                      + Range at playhead
+                    </button>
+                  </div>
+                  {songSections.length === 0 && cutRanges.length === 0 ? (
+                    <p className="text-xs text-stone-500 mt-2">
+                      No sections detected. Add a range to cut part of the song faster or slower.
+                    </p>
+                  ) : (
+                    <div className="mt-2 space-y-1.5 max-h-48 overflow-y-auto pr-1 custom-scrollbar">
+                      {songSections.map((section) => (
+                        <div key={section.id} className="flex items-center gap-2 text-xs">
+                          <span className="flex-1 truncate text-stone-200" title={section.name}>{section.name}</span>
+                          <span className="text-stone-500 tabular-nums">
+                            {section.startSec.toFixed(1)}–{section.endSec.toFixed(1)}s
+                          </span>
+                          <select
+                            value={section.cutBars ?? ''}
+                            onChange={(e) => handleSetSectionCutBars(section.id, e.target.value === '' ? undefined : Number(e.target.value))}
+                            className="w-24 bg-stone-800 border border-stone-700 rounded px-1 py-0.5 text-stone-200"
+                          >
+                            <option value="">Default</option>
+                            {CUT_LENGTH_OPTIONS.map((bars) => (
+                              <option key={bars} value={bars}>{formatCutBars(bars)}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                      {cutRanges.map((range) => (
+                        <div key={range.id} className="flex items-center gap-2 text-xs">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={Number(range.startSec.toFixed(2))}
+                            onChange={(e) => handleUpdateCutRange(range.id, { startSec: Number(e.target.value) })}
+                            className="w-16 bg-stone-800 border border-stone-700 rounded px-1 py-0.5 text-stone-200"
+                            aria-label="Range start (s)"
+                          />
+                          <span className="text-stone-500">–</span>
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={Number(range.endSec.toFixed(2))}
+                            onChange={(e) => handleUpdateCutRange(range.id, { endSec: Number(e.target.value) })}
+                            className="w-16 bg-stone-800 border border-stone-700 rounded px-1 py-0.5 text-stone-200"
+                            aria-label="Range end (s)"
+                          />
+                          <span className="flex-1 text-stone-500">s</span>
+                          <select
+                            value={range.bars}
+                            onChange={(e) => handleUpdateCutRange(range.id, { bars: Number(e.target.value) })}
+                            className="w-24 bg-stone-800 border border-stone-700 rounded px-1 py-0.5 text-stone-200"
+                          >
+                            {CUT_LENGTH_OPTIONS.map((bars) => (
+                              <option key={bars} value={bars}>{formatCutBars(bars)}</option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveCutRange(range.id)}
+                            className="text-stone-500 hover:text-red-400"
+                            aria-label="Remove range"
+                          >
+                            x
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-stone-500 mt-2 leading-relaxed">
+                    Ranges override sections; everything else uses the clip length above. Cuts still land on beats.
+                  </p>
+                </div>
+
                 <div className="flex items-center justify-between gap-3">
                   <button
                     type="button"
@@ -2068,6 +3108,15 @@ const App: React.FC = () => {
                       setAutoSyncBpm(beatGrid.bpm);
                       setAutoSyncIntroSkipFrames(introSkipFrames);
                       setAutoSyncBars(4);
+                      setAutoSyncRhythm('fixed');
+                      setAutoSyncOnsetSpacing(1);
+                      setAutoSyncOnsetStrength(0.3);
+                      setAutoSyncSensitivity(0.5);
+                      setAutoSyncMinBars(0.5);
+                      setAutoSyncMaxBars(4);
+                      setAutoSyncOffsetMode('start');
+                      setAutoSyncSnapToShots(true);
+                      setAutoSyncShortClips('fit');
                     }}
                     className="px-3 py-2 text-sm text-stone-400 hover:text-stone-200"
                   >
@@ -2075,6 +3124,36 @@ const App: React.FC = () => {
                   </button>
                 </div>
 
+                {autoSyncReport && (
+                  <div className={`text-xs rounded border px-3 py-2 ${
+                    autoSyncReport.stretched.length > 0
+                      ? 'text-amber-200 bg-amber-950/30 border-amber-900/60'
+                      : 'text-emerald-200 bg-emerald-950/30 border-emerald-900/60'
+                  }`}>
+                    {autoSyncReport.stretched.length === 0 ? (
+                      <span>All {autoSyncReport.segmentCount} segments play at full speed.</span>
+                    ) : (
+                      <>
+                        <div className="font-semibold">
+                          {autoSyncReport.stretched.length} of {autoSyncReport.segmentCount} segments run out of footage:
+                        </div>
+                        <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+                          {autoSyncReport.stretched.map((entry) => (
+                            <li key={entry.segmentId} className="flex justify-between gap-2">
+                              <span className="truncate">
+                                {(entry.timelineStart / 1000).toFixed(2)}s · {entry.clipName} ({(entry.duration / 1000).toFixed(2)}s)
+                              </span>
+                              <span className="shrink-0">
+                                {entry.frozen ? 'frozen' : `${Math.round(entry.rate * 100)}% speed`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </div>
+                )}
+
                 {autoSyncError && (
                   <div className="text-xs text-red-400 bg-red-950/40 border border-red-900/60 rounded px-3 py-2">
                     {autoSyncError}
@@ -2092,7 +3171,24 @@ const App: React.FC = () => {
                 </button>
                 <button
                   type="button"
-                  onClick={applyAutoSyncSettings}
+                  onClick={() => applyAutoSyncSettings({ ...syncSelection, seed: createRandomSeed() })}
+                  disabled={syncSelection.strategy === 'sequential' && autoSyncOffsetMode !== 'random'}
+                  className="px-3 py-2 text-sm rounded border border-amber-400 text-amber-300 hover:bg-amber-400/10 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                  title="Re-roll the seed and auto-sync again"
+                >
+                  New variation
+                </button>
+                <button
+                  type="button"
+                  onClick={() => applyAutoSyncSettings(syncSelection, 'check')}
+                  className="px-3 py-2 text-sm rounded border border-stone-600 text-stone-300 hover:bg-stone-800"
+                  title="List the segments that would be slowed down or frozen, without applying"
+                >
+                  Check
+                </button>
+                <button
+                  type="button"
+                  onClick={() => applyAutoSyncSettings()}
                   className="px-4 py-2 text-sm font-semibold rounded bg-amber-500 hover:bg-amber-400 text-stone-950"
                 >
                   Auto-Sync Clips
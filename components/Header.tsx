@@ -1,11 +1,16 @@
 import React from 'react';
-import { Play, Pause, Download, Wand2, SkipBack, Settings } from 'lucide-react';
+import { Play, Pause, Download, Wand2, SkipBack, Settings, Drum, Hand, Undo2, Redo2, History } from 'lucide-react';
 import { PlaybackState } from '../types';
+import { EditHistory } from '../services/editHistory';
 
 interface HeaderProps {
     playbackState: PlaybackState;
     onTogglePlay: () => void;
     onJumpToStart: () => void;
+    metronomeEnabled: boolean;
+    onToggleMetronome: () => void;
+    tapCount: number;
+    onTapTempo: () => void;
     onExport: () => void;
     onAutoSync: () => void;
     canSync: boolean;
@@ -26,12 +31,22 @@ interface HeaderProps {
     canLoadProject: boolean;
     canLoadLastProject: boolean;
     projectIoStatus: string | null;
+    history: EditHistory;
+    onUndo: () => void;
+    onRedo: () => void;
+    onJumpToHistory: (doneCount: number) => void;
+    historyOpen: boolean;
+    onToggleHistory: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ 
     playbackState, 
     onTogglePlay, 
     onJumpToStart,
+    metronomeEnabled,
+    onToggleMetronome,
+    tapCount,
+    onTapTempo,
     onExport, 
     onAutoSync,
     canSync,
@@ -51,8 +66,26 @@ const Header: React.FC<HeaderProps> = ({
     canSaveProject,
     canLoadProject,
     canLoadLastProject,
-    projectIoStatus
+    projectIoStatus,
+    history,
+    onUndo,
+    onRedo,
+    onJumpToHistory,
+    historyOpen,
+    onToggleHistory
 }) => {
+    const canUndo = history.past.length > 0;
+    const canRedo = history.future.length > 0;
+    // Oldest first: applied steps, then undone ones (future is a stack, newest undo last).
+    const steps = [
+        ...history.past.map((entry, idx) => ({ entry, doneCount: idx + 1, done: true })),
+        ...[...history.future].reverse().map((entry, idx) => ({ entry, doneCount: history.past.length + idx + 1, done: false }))
+    ];
+    const historyButtonClass = (enabled: boolean) => `p-1.5 rounded border transition-colors ${
+        enabled
+            ? 'bg-stone-800 border-stone-700 text-stone-200 hover:bg-stone-700'
+            : 'bg-stone-800 border-stone-700 text-stone-600 cursor-not-allowed'
+    }`;
     return (
         <header className="h-16 bg-stone-900 border-b border-stone-800 flex items-center justify-between px-6 select-none">
             <div className="flex items-center gap-4">
@@ -68,6 +101,76 @@ const Header: React.FC<HeaderProps> = ({
                         New Project
                     </button>
                 </div>
+                <div className="relative flex items-center gap-1">
+                    <button
+                        onClick={onUndo}
+                        disabled={!canUndo}
+                        className={historyButtonClass(canUndo)}
+                        aria-label="Undo"
+                        title={canUndo ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                    >
+                        <Undo2 size={14} />
+                    </button>
+                    <button
+                        onClick={onRedo}
+                        disabled={!canRedo}
+                        className={historyButtonClass(canRedo)}
+                        aria-label="Redo"
+                        title={canRedo ? `Redo ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                    >
+                        <Redo2 size={14} />
+                    </button>
+                    <button
+                        onClick={onToggleHistory}
+                        aria-label="History"
+                        aria-expanded={historyOpen}
+                        aria-controls="header-history-panel"
+                        className={`p-1.5 rounded border transition-colors ${
+                            historyOpen
+                                ? 'bg-stone-700 border-stone-500 text-stone-100'
+                                : 'bg-stone-800 border-stone-700 text-stone-200 hover:bg-stone-700'
+                        }`}
+                    >
+                        <History size={14} />
+                    </button>
+                    {historyOpen && (
+                        <div
+                            id="header-history-panel"
+                            className="absolute left-0 top-full z-20 mt-2 w-64 rounded-lg border border-stone-800 bg-stone-900 p-4 shadow-xl"
+                            role="dialog"
+                            aria-label="History"
+                        >
+                            <div className="text-xs uppercase tracking-wide text-stone-500">History</div>
+                            <div className="mt-3 max-h-72 space-y-1 overflow-y-auto">
+                                <button
+                                    onClick={() => onJumpToHistory(0)}
+                                    className={`w-full rounded px-2 py-1 text-left text-sm transition-colors hover:bg-stone-800 ${
+                                        history.past.length === 0 ? 'bg-stone-800 text-amber-300' : 'text-stone-300'
+                                    }`}
+                                >
+                                    Start
+                                </button>
+                                {steps.map(({ entry, doneCount, done }) => (
+                                    <button
+                                        key={entry.id}
+                                        onClick={() => onJumpToHistory(doneCount)}
+                                        className={`w-full truncate rounded px-2 py-1 text-left text-sm transition-colors hover:bg-stone-800 ${
+                                            doneCount === history.past.length
+                                                ? 'bg-stone-800 text-amber-300'
+                                                : done ? 'text-stone-300' : 'text-stone-600'
+                                        }`}
+                                        title={new Date(entry.time).toLocaleTimeString()}
+                                    >
+                                        {entry.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {steps.length === 0 && (
+                                <p className="mt-2 text-xs text-stone-500">No edits yet.</p>
+                            )}
+                        </div>
+                    )}
+                </div>
             </div>
 
             <div className="flex items-center gap-4">
@@ -103,6 +206,32 @@ const Header: React.FC<HeaderProps> = ({
                     >
                         {playbackState.isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" />}
                     </button>
+                    <button
+                        onClick={onToggleMetronome}
+                        className={`p-3 rounded-full transition-colors ${
+                            metronomeEnabled
+                                ? 'bg-amber-500 hover:bg-amber-400 text-stone-950'
+                                : 'bg-stone-800 hover:bg-stone-700 text-stone-100'
+                        }`}
+                        aria-label="Metronome"
+                        aria-pressed={metronomeEnabled}
+                        title={metronomeEnabled ? 'Metronome on' : 'Metronome off'}
+                    >
+                        <Drum size={18} />
+                    </button>
+                    <button
+                        onClick={onTapTempo}
+                        disabled={!playbackState.isPlaying}
+                        className={`flex items-center gap-1 px-3 py-2 rounded-full text-sm transition-colors ${
+                            playbackState.isPlaying
+                                ? 'bg-stone-800 hover:bg-stone-700 text-stone-100'
+                                : 'bg-stone-800 text-stone-500 cursor-not-allowed'
+                        }`}
+                        title="Tap tempo (T) while playing; four or more taps set the BPM"
+                    >
+                        <Hand size={16} />
+                        {tapCount > 0 ? tapCount : 'Tap'}
+                    </button>
                 </div>
 
                 <div className="text-mono text-stone-300 w-24 text-center">
@@ -1,5 +1,7 @@
 import React from 'react';
-import { ClipSegment, FadeRange, SourceClip, TimelineTrack } from '../types';
+import { ClipSegment, FadeRange, SourceClip, TimelineTrack, TimeSignature } from '../types';
+import { TIME_SIGNATURE_PRESETS } from '../constants';
+import { findAdjacentShotStart, findNearestShotStart } from '../services/sceneDetection';
 
 interface InspectorProps {
     selectedSegmentId: string | null;
@@ -8,6 +10,10 @@ interface InspectorProps {
     clips: SourceClip[];
     onUpdateSegment: (id: string, updates: Partial<ClipSegment>) => void;
     onRemoveSegment: (id: string) => void;
+    onNudgeSegment: (id: string, edge: 'start' | 'end', beats: 1 | -1) => void;
+    playheadMs: number;
+    onSplitAtPlayhead: () => void;
+    onSplitOnBeats: (id: string) => void;
     swapMode: boolean;
     swapSourceId: string | null;
     onToggleSwapMode: (id: string) => void;
@@ -17,6 +23,14 @@ interface InspectorProps {
     introSkipFrames: number;
     onUpdateIntroSkipFrames: (frames: number) => void;
     bpm: number;
+    tempoSegmentCount: number;
+    firstDownbeatSec: number | null;
+    onRotateBarPhase: (steps: number) => void;
+    onImportBeatGridFile: (file: File) => void;
+    onImportSeratoGrid: () => void;
+    gridImportStatus: string | null;
+    timeSignature: TimeSignature;
+    onUpdateTimeSignature: (timeSignature: TimeSignature) => void;
     barLengthSec: number;
     onUpdateBpm: (bpm: number) => void;
     onUpdateBarLength: (barLengthSec: number) => void;
@@ -33,6 +47,10 @@ const Inspector: React.FC<InspectorProps> = ({
     clips,
     onUpdateSegment,
     onRemoveSegment,
+    onNudgeSegment,
+    playheadMs,
+    onSplitAtPlayhead,
+    onSplitOnBeats,
     swapMode,
     swapSourceId,
     onToggleSwapMode,
@@ -42,6 +60,14 @@ const Inspector: React.FC<InspectorProps> = ({
     introSkipFrames,
     onUpdateIntroSkipFrames,
     bpm,
+    tempoSegmentCount,
+    firstDownbeatSec,
+    onRotateBarPhase,
+    onImportBeatGridFile,
+    onImportSeratoGrid,
+    gridImportStatus,
+    timeSignature,
+    onUpdateTimeSignature,
     barLengthSec,
     onUpdateBpm,
     onUpdateBarLength,
@@ -50,6 +76,7 @@ const Inspector: React.FC<InspectorProps> = ({
     onAddClipToTimeline,
     onExportAudio
 }) => {
+    const [snapSlipToShots, setSnapSlipToShots] = React.useState(true);
     const segment = tracks.flatMap(track => track.segments).find(s => s.id === selectedSegmentId);
     const sourceClip = segment ? clips.find(c => c.id === segment.sourceClipId) : null;
     const selectedMediaClip = selectedMediaClipId ? clips.find(c => c.id === selectedMediaClipId) : null;
@@ -155,6 +182,36 @@ const Inspector: React.FC<InspectorProps> = ({
             sourceStartOffset: clampedOffset
         });
     };
+    const maxSlipOffset = Math.max(0, sourceClip.duration - segment.duration);
+    const shotStarts = (sourceClip.shotStarts ?? []).filter(start => start <= maxSlipOffset);
+    const updateSlip = (value: number) => {
+        if (!Number.isFinite(value)) return;
+        const snapped = snapSlipToShots ? findNearestShotStart(shotStarts, value, maxSlipOffset) : null;
+        onUpdateSegment(segment.id, { sourceStartOffset: snapped ?? value });
+    };
+    const stepSlipToShot = (step: 1 | -1) => {
+        const target = findAdjacentShotStart(shotStarts, segment.sourceStartOffset, step);
+        if (target !== null) {
+            onUpdateSegment(segment.id, { sourceStartOffset: target });
+        }
+    };
+    const canNudge = sourceClip.type !== 'audio' && !segment.locked;
+    const renderNudgeButtons = (edge: 'start' | 'end') => (
+        <div className="mt-1 grid grid-cols-2 gap-1">
+            {([-1, 1] as const).map((beats) => (
+                <button
+                    key={beats}
+                    type="button"
+                    onClick={() => onNudgeSegment(segment.id, edge, beats)}
+                    disabled={!canNudge}
+                    className="rounded border border-stone-700 bg-stone-800 px-1 py-0.5 text-[10px] text-stone-300 hover:bg-stone-700 disabled:cursor-not-allowed disabled:opacity-50"
+                    title={edge === 'start' ? 'Move the segment by one beat' : 'Lengthen or shorten by one beat'}
+                >
+                    {beats > 0 ? '+1 beat' : '−1 beat'}
+                </button>
+            ))}
+        </div>
+    );
     const updatePlaybackRate = (value: number) => {
         if (!Number.isFinite(value)) return;
         const clampedPercent = Math.max(5, value);
@@ -192,7 +249,40 @@ const Inspector: React.FC<InspectorProps> = ({
                     >
                         {swapMode && swapSourceId === segment.id ? 'Swap Active' : 'Swap'}
                     </button>
+                    <button
+                        type="button"
+                        onClick={() => onUpdateSegment(segment.id, { locked: !segment.locked })}
+                        className={`flex-1 rounded border px-3 py-2 text-xs font-semibold uppercase tracking-wide transition ${
+                            segment.locked
+                                ? 'border-amber-400 bg-amber-500/20 text-amber-100'
+                                : 'border-stone-700 bg-stone-800 text-stone-200 hover:bg-stone-700'
+                        }`}
+                        title="Locked segments are kept when auto-sync re-cuts the track"
+                    >
+                        {segment.locked ? 'Locked' : 'Lock'}
+                    </button>
                 </div>
+                {sourceClip.type !== 'audio' && (
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            onClick={onSplitAtPlayhead}
+                            disabled={playheadMs <= segment.timelineStart || playheadMs >= segment.timelineStart + segment.duration}
+                            className="flex-1 rounded border border-stone-700 bg-stone-800 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-stone-200 hover:bg-stone-700 disabled:cursor-not-allowed disabled:opacity-50"
+                            title="Split this segment at the playhead (S)"
+                        >
+                            Split
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => onSplitOnBeats(segment.id)}
+                            className="flex-1 rounded border border-stone-700 bg-stone-800 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-stone-200 hover:bg-stone-700"
+                            title="Cut this segment into one piece per beat"
+                        >
+                            Split on Beats
+                        </button>
+                    </div>
+                )}
             </div>
 
             <div className="p-4 space-y-6">
@@ -207,6 +297,7 @@ const Inspector: React.FC<InspectorProps> = ({
                                 disabled
                                 className="w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200"
                             />
+                            {renderNudgeButtons('start')}
                          </div>
                          <div>
                             <span className="text-xs text-stone-400 block mb-1">Duration</span>
@@ -218,6 +309,7 @@ const Inspector: React.FC<InspectorProps> = ({
                                 onChange={(e) => updateDurationMs(Number(e.target.value))}
                                 className="w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200"
                             />
+                            {renderNudgeButtons('end')}
                          </div>
                          <div>
                             <span className="text-xs text-stone-400 block mb-1">Duration (bars)</span>
@@ -348,6 +440,89 @@ const Inspector: React.FC<InspectorProps> = ({
                         <p className="text-xs text-stone-500 mt-2 leading-relaxed">
                             Editing either value recalculates the beat grid so clips stay in sync.
                         </p>
+                        <div className="mt-3">
+                            <span className="text-xs text-stone-400 block mb-1">Time signature</span>
+                            <select
+                                value={`${timeSignature.beatsPerBar}/${timeSignature.beatUnit}`}
+                                onChange={(e) => {
+                                    const [beatsPerBar, beatUnit] = e.target.value.split('/').map(Number);
+                                    onUpdateTimeSignature({ beatsPerBar, beatUnit });
+                                }}
+                                className="w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-sm text-stone-200"
+                            >
+                                {TIME_SIGNATURE_PRESETS.map((preset) => (
+                                    <option key={`${preset.beatsPerBar}/${preset.beatUnit}`} value={`${preset.beatsPerBar}/${preset.beatUnit}`}>
+                                        {preset.beatsPerBar}/{preset.beatUnit}
+                                    </option>
+                                ))}
+                            </select>
+                            {timeSignature.beatUnit === 8 && (
+                                <p className="text-xs text-stone-500 mt-1 leading-relaxed">
+                                    Each grid beat counts as an eighth note; set BPM to the eighth-note pulse.
+                                </p>
+                            )}
+                        </div>
+                        <div className="mt-3">
+                            <span className="text-xs text-stone-400 block mb-1">Downbeat</span>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => onRotateBarPhase(-1)}
+                                    className="w-8 h-8 rounded bg-stone-800 border border-stone-700 text-stone-200 hover:bg-stone-700"
+                                    title="Move beat 1 one beat earlier"
+                                >
+                                    -
+                                </button>
+                                <div className="flex-1 text-center text-sm text-stone-200">
+                                    {firstDownbeatSec === null ? '—' : `${firstDownbeatSec.toFixed(3)}s`}
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={() => onRotateBarPhase(1)}
+                                    className="w-8 h-8 rounded bg-stone-800 border border-stone-700 text-stone-200 hover:bg-stone-700"
+                                    title="Move beat 1 one beat later"
+                                >
+                                    +
+                                </button>
+                            </div>
+                        </div>
+                        {tempoSegmentCount > 1 && (
+                            <p className="text-xs text-sky-300/80 mt-2 leading-relaxed">
+                                Tempo map with {tempoSegmentCount} sections. BPM shows the first section; editing it replaces the map with a constant tempo.
+                            </p>
+                        )}
+                        <div className="mt-3">
+                            <span className="text-xs text-stone-400 block mb-1">Import grid</span>
+                            <div className="grid grid-cols-2 gap-2">
+                                <label
+                                    className="text-center text-xs px-2 py-1.5 rounded bg-stone-800 border border-stone-700 text-stone-200 hover:bg-stone-700 cursor-pointer"
+                                    title="Rekordbox XML, Traktor NML or MIDI tempo track"
+                                >
+                                    From file…
+                                    <input
+                                        type="file"
+                                        accept=".xml,.nml,.mid,.midi"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (file) onImportBeatGridFile(file);
+                                        }}
+                                    />
+                                </label>
+                                <button
+                                    type="button"
+                                    onClick={onImportSeratoGrid}
+                                    className="text-xs px-2 py-1.5 rounded bg-stone-800 border border-stone-700 text-stone-200 hover:bg-stone-700"
+                                    title="Read the grid Serato stored in the audio file's tags"
+                                >
+                                    Serato tags
+                                </button>
+                            </div>
+                            {gridImportStatus && (
+                                <p className="text-xs text-stone-500 mt-1 leading-relaxed">{gridImportStatus}</p>
+                            )}
+                        </div>
                     </div>
                 )}
 
@@ -438,11 +613,55 @@ const Inspector: React.FC<InspectorProps> = ({
                                 min={0}
                                 max={sourceClip.duration - segment.duration}
                                 value={segment.sourceStartOffset}
-                                onChange={(e) => onUpdateSegment(segment.id, { sourceStartOffset: Number(e.target.value) })}
+                                onChange={(e) => updateSlip(Number(e.target.value))}
                                 className="w-full h-1 bg-stone-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
                             />
-                            <div className="text-right text-xs text-amber-400">
-                                +{(segment.sourceStartOffset / 1000).toFixed(2)}s
+                            {shotStarts.length > 1 && maxSlipOffset > 0 && (
+                                <div className="relative h-2">
+                                    {shotStarts.map(start => (
+                                        <span
+                                            key={start}
+                                            className="absolute top-0 h-2 w-px bg-stone-500"
+                                            style={{ left: `${(start / maxSlipOffset) * 100}%` }}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                            <div className="flex items-center justify-between gap-2">
+                                {sourceClip.shotStarts ? (
+                                    <div className="flex items-center gap-1">
+                                        <button
+                                            type="button"
+                                            onClick={() => stepSlipToShot(-1)}
+                                            className="text-xs px-2 py-1 rounded bg-stone-800 border border-stone-700 text-stone-200 hover:bg-stone-700"
+                                            title="Previous shot start"
+                                        >
+                                            ◀ Shot
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => stepSlipToShot(1)}
+                                            className="text-xs px-2 py-1 rounded bg-stone-800 border border-stone-700 text-stone-200 hover:bg-stone-700"
+                                            title="Next shot start"
+                                        >
+                                            Shot ▶
+                                        </button>
+                                        <label className="flex items-center gap-1 text-xs text-stone-400 ml-1">
+                                            <input
+                                                type="checkbox"
+                                                checked={snapSlipToShots}
+                                                onChange={(e) => setSnapSlipToShots(e.target.checked)}
+                                                className="h-3 w-3 accent-amber-500"
+                                            />
+                                            Snap
+                                        </label>
+                                    </div>
+                                ) : (
+                                    <span className="text-xs text-stone-500">No shots detected</span>
+                                )}
+                                <span className="text-xs text-amber-400">
+                                    +{(segment.sourceStartOffset / 1000).toFixed(2)}s
+                                </span>
                             </div>
                         </div>
                         <p className="text-xs text-stone-500 mt-2 leading-relaxed">
@@ -4,13 +4,15 @@ import { SourceClip } from '../types';
 
 interface MediaPoolProps {
     clips: SourceClip[];
+    analysisProgress: Record<string, number>;
     onImport: (files?: FileList) => void;
     onDelete: (id: string) => void;
     selectedClipId: string | null;
     onSelectClip: (id: string) => void;
+    onUpdateClip: (id: string, updates: Partial<SourceClip>) => void;
 }
 
-const MediaPool: React.FC<MediaPoolProps> = ({ clips, onImport, onDelete, selectedClipId, onSelectClip }) => {
+const MediaPool: React.FC<MediaPoolProps> = ({ clips, analysisProgress, onImport, onDelete, selectedClipId, onSelectClip, onUpdateClip }) => {
     const fileInputRef = React.useRef<HTMLInputElement>(null);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -53,9 +55,10 @@ const MediaPool: React.FC<MediaPoolProps> = ({ clips, onImport, onDelete, select
             <div className="flex-1 overflow-y-auto p-2 space-y-2">
                 {clips.map(clip => {
                     const isSelected = selectedClipId === clip.id;
+                    const progress = analysisProgress[clip.id];
                     return (
+                    <React.Fragment key={clip.id}>
                     <div
-                        key={clip.id}
                         onClick={() => onSelectClip(clip.id)}
                         className={`group flex gap-3 p-2 rounded transition-colors cursor-pointer border ${
                             isSelected
@@ -79,6 +82,19 @@ const MediaPool: React.FC<MediaPoolProps> = ({ clips, onImport, onDelete, select
                                 {clip.type === 'video' ? <Film size={12} /> : <Music size={12} />}
                                 {clip.type.toUpperCase()}
                             </div>
+                            {progress !== undefined && (
+                                <div className="mt-1">
+                                    <div className="text-[10px] text-amber-300/90">
+                                        Analyzing beats… {Math.round(progress * 100)}%
+                                    </div>
+                                    <div className="h-1 mt-0.5 bg-stone-700 rounded overflow-hidden">
+                                        <div
+                                            className="h-full bg-amber-400 transition-[width]"
+                                            style={{ width: `${Math.round(progress * 100)}%` }}
+                                        />
+                                    </div>
+                                </div>
+                            )}
                         </div>
                         <button 
                             onClick={(e) => { e.stopPropagation(); onDelete(clip.id); }}
@@ -87,6 +103,64 @@ const MediaPool: React.FC<MediaPoolProps> = ({ clips, onImport, onDelete, select
                             <Trash2 size={14} />
                         </button>
                     </div>
+                    {isSelected && clip.type === 'video' && (
+                        <div className="grid grid-cols-2 gap-2 rounded border border-stone-800 bg-stone-900/60 p-2">
+                            <label className="text-[10px] text-stone-400 uppercase tracking-wide">
+                                Weight
+                                <input
+                                    // Edited as a draft and applied on blur or Enter, so "0.5" can be typed.
+                                    key={clip.weight ?? 1}
+                                    type="number"
+                                    min={0.1}
+                                    step={0.1}
+                                    defaultValue={clip.weight ?? 1}
+                                    onBlur={(e) => {
+                                        const value = Number(e.target.value);
+                                        if (e.target.value.trim() === '' || !Number.isFinite(value) || value <= 0) {
+                                            e.target.value = String(clip.weight ?? 1);
+                                            return;
+                                        }
+                                        if (value !== (clip.weight ?? 1)) onUpdateClip(clip.id, { weight: value });
+                                    }}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') e.currentTarget.blur();
+                                    }}
+                                    className="mt-1 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-xs text-stone-200"
+                                />
+                            </label>
+                            <label className="text-[10px] text-stone-400 uppercase tracking-wide">
+                                Max cuts
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={1}
+                                    value={clip.maxUses ?? ''}
+                                    placeholder="No limit"
+                                    onChange={(e) => {
+                                        const value = e.target.value === '' ? NaN : Math.round(Number(e.target.value));
+                                        onUpdateClip(clip.id, { maxUses: Number.isFinite(value) && value >= 0 ? value : undefined });
+                                    }}
+                                    className="mt-1 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-xs text-stone-200"
+                                />
+                            </label>
+                            <label className="col-span-2 text-[10px] text-stone-400 uppercase tracking-wide">
+                                Tags
+                                <input
+                                    // Remount when undo or a project load changes the tags.
+                                    key={(clip.tags ?? []).join(', ')}
+                                    type="text"
+                                    defaultValue={(clip.tags ?? []).join(', ')}
+                                    placeholder="e.g. A, hero"
+                                    onBlur={(e) => {
+                                        const tags = e.target.value.split(',').map(tag => tag.trim()).filter(Boolean);
+                                        onUpdateClip(clip.id, { tags: tags.length > 0 ? tags : undefined });
+                                    }}
+                                    className="mt-1 w-full bg-stone-800 border border-stone-700 rounded px-2 py-1 text-xs text-stone-200 normal-case tracking-normal"
+                                />
+                            </label>
+                        </div>
+                    )}
+                    </React.Fragment>
                 );
                 })}
 
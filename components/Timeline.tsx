@@ -1,18 +1,54 @@
-import React, { useRef, useMemo, useEffect } from 'react';
-import { TimelineTrack, PlaybackState, BeatGrid, SourceClip, FadeRange } from '../types';
-import { TRACK_HEIGHT, TIMELINE_ZOOM_MIN, TIMELINE_ZOOM_MAX } from '../constants';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { TimelineTrack, PlaybackState, BeatGrid, ClipSegment, EditMode, SourceClip, FadeRange, Onset, SnapResolution, SongSection, TimeSignature, WaveformPeaks } from '../types';
+import {
+    TRACK_HEIGHT,
+    SECTION_LANE_HEIGHT,
+    SECTION_COLORS,
+    SECTION_FALLBACK_COLORS,
+    TIMELINE_ZOOM_MIN,
+    TIMELINE_ZOOM_MAX,
+    WAVEFORM_MAX_RENDER_PEAKS
+} from '../constants';
+import { getBarPosition, isDownbeat, pickWaveformLevel } from '../services/audioUtils';
+import { SegmentDragMode, applyTrackEdit } from '../services/segmentEdit';
+import { SNAP_DISTANCE_PX, getGridSnapTimes, getSegmentEdgeTimes, snapDelta, snapTime } from '../services/snapping';
+
+// Pointer travel before a press on a segment counts as a drag instead of a click.
+const SEGMENT_DRAG_THRESHOLD_PX = 3;
+
+type SegmentDrag = {
+    id: string;
+    trackId: string;
+    mode: SegmentDragMode;
+    startClientX: number;
+    active: boolean;
+    // The whole track as it would look after the drag; neighbors change in some edit modes.
+    segments: ClipSegment[];
+};
 
 interface TimelineProps {
     tracks: TimelineTrack[];
     clips: SourceClip[];
     playbackState: PlaybackState;
     beatGrid: BeatGrid;
-    waveform: number[];
+    timeSignature: TimeSignature;
+    waveformPeaks: WaveformPeaks | null;
+    sections: SongSection[];
+    onsets: Onset[];
+    onRenameSection: (id: string, name: string) => void;
+    onResizeSection: (id: string, edge: 'start' | 'end', timeSec: number) => void;
     zoom: number;
     duration: number;
+    snapResolution: SnapResolution;
+    editMode: EditMode;
     onSeek: (time: number) => void;
     onZoomChange: (zoom: number) => void;
     onSelectSegment: (id: string) => void;
+    onMoveBeat: (beatIndex: number, timeSec: number) => void;
+    onAddBeat: (timeSec: number) => void;
+    onRemoveBeat: (beatIndex: number) => void;
+    onDragSegment: (trackId: string, mode: SegmentDragMode, segments: ClipSegment[]) => void;
+    onScrubPreview: (timeMs: number) => void;
     selectedSegmentId: string | null;
     insertBeforeMode?: boolean;
 }
@@ -22,17 +58,36 @@ const Timeline: React.FC<TimelineProps> = ({
     clips,
     playbackState,
     beatGrid,
-    waveform,
+    timeSignature,
+    waveformPeaks,
+    sections,
+    onsets,
+    onRenameSection,
+    onResizeSection,
     zoom,
     duration,
+    snapResolution,
+    editMode,
     onSeek,
     onZoomChange,
     onSelectSegment,
+    onMoveBeat,
+    onAddBeat,
+    onRemoveBeat,
+    onDragSegment,
+    onScrubPreview,
     selectedSegmentId,
     insertBeforeMode
 }) => {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const isScrubbingRef = useRef(false);
+    const [beatDrag, setBeatDrag] = useState<{ index: number; timeSec: number } | null>(null);
+    const beatDragRef = useRef<{ index: number; timeSec: number } | null>(null);
+    const [sectionDrag, setSectionDrag] = useState<{ id: string; edge: 'start' | 'end'; timeSec: number } | null>(null);
+    const sectionDragRef = useRef<{ id: string; edge: 'start' | 'end'; timeSec: number } | null>(null);
+    const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
+    const [segmentDrag, setSegmentDrag] = useState<SegmentDrag | null>(null);
+    const segmentDragRef = useRef<SegmentDrag | null>(null);
     const defaultFadeIn = { enabled: false, startMs: 0, endMs: 500 };
     const defaultFadeOut = { enabled: false, startMs: -500, endMs: 0 };
 
@@ -56,7 +111,9 @@ const Timeline: React.FC<TimelineProps> = ({
     };
 
     const rulerHeight = 32;
-    const timelineHeight = rulerHeight + tracks.length * TRACK_HEIGHT;
+    const sectionLaneHeight = sections.length > 0 ? SECTION_LANE_HEIGHT : 0;
+    const tracksHeight = tracks.length * TRACK_HEIGHT + sectionLaneHeight;
+    const timelineHeight = rulerHeight + tracksHeight;
     // Calculate width based on total duration
     const totalWidth = (duration / 1000) * zoom;
     const clipNameById = useMemo(
@@ -64,26 +121,78 @@ const Timeline: React.FC<TimelineProps> = ({
         [clips]
     );
 
+    const { beatsPerBar } = timeSignature;
+    const gridSnapTimes = useMemo(
+        () => getGridSnapTimes(beatGrid, snapResolution, beatsPerBar),
+        [beatGrid, snapResolution, beatsPerBar]
+    );
+    const snapThresholdMs = (SNAP_DISTANCE_PX / zoom) * 1000;
+    // Grid lines, segment edges and (when dragging segments) the playhead; Alt bypasses snapping.
+    const getSnapTargets = (excludeSegmentId?: string) => {
+        if (snapResolution === 'off') return [];
+        const targets = [...gridSnapTimes, ...getSegmentEdgeTimes(tracks, excludeSegmentId)];
+        if (excludeSegmentId) targets.push(playbackState.currentTime);
+        return targets;
+    };
+
     const handleTimelineClick = (e: React.MouseEvent) => {
+        updateTimeFromClientX(e.clientX, e.altKey);
+    };
+
+    const updateTimeFromClientX = (clientX: number, bypassSnap = false) => {
         if (!scrollContainerRef.current) return;
         const rect = scrollContainerRef.current.getBoundingClientRect();
-        const offsetX = e.clientX - rect.left + scrollContainerRef.current.scrollLeft;
-        const timeMs = (offsetX / zoom) * 1000;
+        const offsetX = clientX - rect.left + scrollContainerRef.current.scrollLeft;
+        const rawMs = (offsetX / zoom) * 1000;
+        const timeMs = bypassSnap ? rawMs : snapTime(rawMs, getSnapTargets(), snapThresholdMs);
         onSeek(Math.max(0, Math.min(duration, timeMs)));
     };
 
-    const updateTimeFromClientX = (clientX: number) => {
-        if (!scrollContainerRef.current) return;
+    const getTimeSecFromClientX = (clientX: number) => {
+        if (!scrollContainerRef.current) return 0;
         const rect = scrollContainerRef.current.getBoundingClientRect();
         const offsetX = clientX - rect.left + scrollContainerRef.current.scrollLeft;
-        const timeMs = (offsetX / zoom) * 1000;
-        onSeek(Math.max(0, Math.min(duration, timeMs)));
+        return Math.max(0, Math.min(duration / 1000, offsetX / zoom));
+    };
+
+    const handleBeatDragStart = (e: React.MouseEvent, index: number) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        e.preventDefault();
+        beatDragRef.current = { index, timeSec: beatGrid.beats[index] };
+        setBeatDrag(beatDragRef.current);
+    };
+
+    const handleSectionDragStart = (e: React.MouseEvent, id: string, edge: 'start' | 'end', timeSec: number) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        e.preventDefault();
+        sectionDragRef.current = { id, edge, timeSec };
+        setSectionDrag(sectionDragRef.current);
+    };
+
+    const handleSegmentDragStart = (e: React.MouseEvent, segmentId: string, mode: SegmentDragMode) => {
+        e.stopPropagation();
+        if (e.button !== 0 || insertBeforeMode) return;
+        const track = tracks.find(t => t.segments.some(s => s.id === segmentId));
+        const segment = track?.segments.find(s => s.id === segmentId);
+        if (!track || !segment || segment.locked) return;
+        e.preventDefault();
+        segmentDragRef.current = {
+            id: segmentId,
+            trackId: track.id,
+            mode,
+            startClientX: e.clientX,
+            active: false,
+            segments: track.segments
+        };
+        setSegmentDrag(segmentDragRef.current);
     };
 
     const handleScrubStart = (e: React.MouseEvent) => {
         if (e.button !== 0) return;
         isScrubbingRef.current = true;
-        updateTimeFromClientX(e.clientX);
+        updateTimeFromClientX(e.clientX, e.altKey);
         e.preventDefault();
     };
 
@@ -110,7 +219,7 @@ const Timeline: React.FC<TimelineProps> = ({
     useEffect(() => {
         const handleMouseMove = (e: MouseEvent) => {
             if (!isScrubbingRef.current) return;
-            updateTimeFromClientX(e.clientX);
+            updateTimeFromClientX(e.clientX, e.altKey);
         };
         const handleMouseUp = () => {
             if (!isScrubbingRef.current) return;
@@ -122,7 +231,92 @@ const Timeline: React.FC<TimelineProps> = ({
             window.removeEventListener('mousemove', handleMouseMove);
             window.removeEventListener('mouseup', handleMouseUp);
         };
-    }, [zoom, duration, onSeek]);
+    }, [zoom, duration, onSeek, gridSnapTimes, tracks]);
+
+    const isDraggingBeat = beatDrag !== null;
+    useEffect(() => {
+        if (!isDraggingBeat) return;
+        const handleMouseMove = (e: MouseEvent) => {
+            if (!beatDragRef.current) return;
+            beatDragRef.current = { ...beatDragRef.current, timeSec: getTimeSecFromClientX(e.clientX) };
+            setBeatDrag(beatDragRef.current);
+        };
+        const handleMouseUp = () => {
+            const drag = beatDragRef.current;
+            beatDragRef.current = null;
+            setBeatDrag(null);
+            if (drag) onMoveBeat(drag.index, drag.timeSec);
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [isDraggingBeat, zoom, duration, onMoveBeat]);
+
+    const isDraggingSection = sectionDrag !== null;
+    useEffect(() => {
+        if (!isDraggingSection) return;
+        const handleMouseMove = (e: MouseEvent) => {
+            if (!sectionDragRef.current) return;
+            sectionDragRef.current = { ...sectionDragRef.current, timeSec: getTimeSecFromClientX(e.clientX) };
+            setSectionDrag(sectionDragRef.current);
+        };
+        const handleMouseUp = () => {
+            const drag = sectionDragRef.current;
+            sectionDragRef.current = null;
+            setSectionDrag(null);
+            if (drag) onResizeSection(drag.id, drag.edge, drag.timeSec);
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [isDraggingSection, zoom, duration, onResizeSection]);
+
+    const isDraggingSegment = segmentDrag !== null;
+    useEffect(() => {
+        if (!isDraggingSegment) return;
+        const handleMouseMove = (e: MouseEvent) => {
+            const drag = segmentDragRef.current;
+            if (!drag) return;
+            const deltaPx = e.clientX - drag.startClientX;
+            if (!drag.active && Math.abs(deltaPx) < SEGMENT_DRAG_THRESHOLD_PX) return;
+            const track = tracks.find(t => t.segments.some(s => s.id === drag.id));
+            const segment = track?.segments.find(s => s.id === drag.id);
+            if (!track || !segment) return;
+            const rawDeltaMs = (deltaPx / zoom) * 1000;
+            const segmentEnd = segment.timelineStart + segment.duration;
+            // A slip keeps both edges where they are, so there is nothing to snap.
+            const movingEdges = drag.mode === 'move'
+                ? editMode === 'slip' ? [] : [segment.timelineStart, segmentEnd]
+                : [drag.mode === 'trim-start' ? segment.timelineStart : segmentEnd];
+            const deltaMs = e.altKey
+                ? rawDeltaMs
+                : snapDelta(movingEdges, rawDeltaMs, getSnapTargets(drag.id), snapThresholdMs);
+            const segments = applyTrackEdit(track, drag.id, drag.mode, editMode, deltaMs, clips);
+            segmentDragRef.current = { ...drag, active: true, segments };
+            setSegmentDrag(segmentDragRef.current);
+            // Audition the song at the edge being placed.
+            const moved = segments.find(s => s.id === drag.id) ?? segment;
+            onScrubPreview(drag.mode === 'trim-end' ? moved.timelineStart + moved.duration : moved.timelineStart);
+        };
+        const handleMouseUp = () => {
+            const drag = segmentDragRef.current;
+            segmentDragRef.current = null;
+            setSegmentDrag(null);
+            if (drag?.active) onDragSegment(drag.trackId, drag.mode, drag.segments);
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [isDraggingSegment, tracks, clips, zoom, editMode, gridSnapTimes, playbackState.currentTime, onDragSegment, onScrubPreview]);
 
     useEffect(() => {
         if (!playbackState.isPlaying) return;
@@ -145,21 +339,73 @@ const Timeline: React.FC<TimelineProps> = ({
         return beatGrid.beats.map((beatTime, idx) => (
             <div 
                 key={idx}
-                className="absolute top-0 bottom-0 w-px bg-blue-500/25 pointer-events-none"
+                className={`absolute top-0 bottom-0 w-px pointer-events-none ${
+                    isDownbeat(beatGrid, idx, beatsPerBar) ? 'bg-blue-400/50' : 'bg-blue-500/25'
+                }`}
                 style={{ left: `${beatTime * zoom}px` }}
             />
         ));
-    }, [beatGrid, zoom]);
-
-    const waveformPath = useMemo(() => {
-        if (waveform.length < 2) return '';
-        const top = waveform.map((amp, idx) => `${idx} ${0.5 - amp * 0.48}`);
-        const bottom = waveform
-            .slice()
-            .reverse()
-            .map((amp, idx) => `${waveform.length - 1 - idx} ${0.5 + amp * 0.48}`);
-        return `M ${top[0]} L ${top.join(' L ')} L ${bottom.join(' L ')} Z`;
-    }, [waveform]);
+    }, [beatGrid, beatsPerBar, zoom]);
+
+    // bar.beat labels: every beat when there's room, otherwise downbeats only.
+    const barLabelsRender = useMemo(() => {
+        const beats = beatGrid.beats;
+        if (beats.length < 2) return null;
+        const beatWidthPx = ((beats[beats.length - 1] - beats[0]) / (beats.length - 1)) * zoom;
+        const showBeats = beatWidthPx >= 28;
+        const barStride = Math.max(1, Math.ceil(28 / (beatWidthPx * beatsPerBar)));
+        return beats.map((beatTime, idx) => {
+            const { bar, beat } = getBarPosition(beatGrid, idx, beatsPerBar);
+            if (beat !== 1 && !showBeats) return null;
+            if (beat === 1 && (bar - 1) % barStride !== 0) return null;
+            return (
+                <div
+                    key={`bar-${idx}`}
+                    className={`absolute top-0 text-[9px] leading-3 pl-1 border-l h-3 pointer-events-none whitespace-nowrap ${
+                        beat === 1 ? 'text-amber-300/90 border-amber-400/60' : 'text-stone-500 border-stone-600'
+                    }`}
+                    style={{ left: `${beatTime * zoom}px` }}
+                >
+                    {beat === 1 ? bar : `${bar}.${beat}`}
+                </div>
+            );
+        });
+    }, [beatGrid, beatsPerBar, zoom]);
+
+    // One min/max outline per channel, stacked (left on top) in a 0..1 tall box.
+    const waveformRender = useMemo(() => {
+        if (!waveformPeaks) return null;
+        const level = pickWaveformLevel(waveformPeaks, zoom, WAVEFORM_MAX_RENDER_PEAKS);
+        if (!level) return null;
+        const peakCount = (level.channels[0]?.length ?? 0) / 2;
+        if (peakCount < 2) return null;
+        const laneHeight = 1 / level.channels.length;
+        const scale = (laneHeight * 0.48) / 127;
+        const path = level.channels.map((peaks, channel) => {
+            const center = laneHeight * (channel + 0.5);
+            const top: string[] = [];
+            const bottom: string[] = [];
+            for (let idx = 0; idx < peakCount; idx++) {
+                top.push(`${idx} ${(center - peaks[idx * 2 + 1] * scale).toFixed(4)}`);
+                bottom.push(`${idx} ${(center - peaks[idx * 2] * scale).toFixed(4)}`);
+            }
+            return `M ${top.join(' L ')} L ${bottom.reverse().join(' L ')} Z`;
+        }).join(' ');
+        return {
+            path,
+            peakCount,
+            widthPx: (peakCount * level.samplesPerPeak / waveformPeaks.sampleRate) * zoom
+        };
+    }, [waveformPeaks, zoom]);
+
+    // Onset ticks rise from the bottom of the audio lane, taller for stronger hits.
+    const onsetPath = useMemo(() => {
+        if (onsets.length === 0) return null;
+        return onsets
+            .map(onset => `M ${onset.time.toFixed(3)} 1 V ${(1 - 0.15 - onset.strength * 0.35).toFixed(3)}`)
+            .join(' ');
+    }, [onsets]);
+    const onsetSpanSec = onsets.length > 0 ? Math.max(duration / 1000, onsets[onsets.length - 1].time) : 0;
 
     return (
         <div
@@ -175,6 +421,18 @@ const Timeline: React.FC<TimelineProps> = ({
                 onClick={handleTimelineClick}
                 onMouseDown={handleScrubStart}
             >
+                {/* Tempo changes */}
+                {beatGrid.tempoMap.length > 1 && beatGrid.tempoMap.map((segment, idx) => (
+                    <div
+                        key={`tempo-${idx}`}
+                        className="absolute top-3 text-[9px] leading-3 text-sky-300/80 pl-1 border-l border-sky-400/60 h-3 pointer-events-none whitespace-nowrap"
+                        style={{ left: `${segment.time * zoom}px` }}
+                        title={`${segment.bpm.toFixed(2)} BPM`}
+                    >
+                        {segment.bpm.toFixed(1)}
+                    </div>
+                ))}
+                {barLabelsRender}
                 {/* Generate ticks every second */}
                 {Array.from({ length: Math.ceil(duration / 1000) }).map((_, sec) => (
                      <div key={sec} className="absolute bottom-0 text-[10px] text-stone-500 pl-1 border-l border-stone-700 h-3" style={{ left: `${sec * zoom}px`}}>
@@ -186,32 +444,89 @@ const Timeline: React.FC<TimelineProps> = ({
             {/* Tracks Container */}
             <div
                 className="relative"
-                style={{ width: `${Math.max(totalWidth, window.innerWidth)}px`, height: `${tracks.length * TRACK_HEIGHT}px` }}
+                style={{ width: `${Math.max(totalWidth, window.innerWidth)}px`, height: `${tracksHeight}px` }}
                 onClick={handleTimelineClick}
                 onMouseDown={handleScrubStart}
             >
                 {beatsRender}
 
                 {tracks.map((track) => (
+                    <React.Fragment key={track.id}>
+                    {track.type === 'audio' && sectionLaneHeight > 0 && (
+                        <div className="relative border-b border-stone-800 w-full" style={{ height: `${sectionLaneHeight}px` }}>
+                            {/* Song sections: double-click to rename, drag an edge to resize */}
+                            {sections.map((section, idx) => {
+                                const drag = sectionDrag?.id === section.id ? sectionDrag : null;
+                                const startSec = drag?.edge === 'start' ? drag.timeSec : section.startSec;
+                                const endSec = drag?.edge === 'end' ? drag.timeSec : section.endSec;
+                                const color = SECTION_COLORS[section.name.toLowerCase()]
+                                    ?? SECTION_FALLBACK_COLORS[idx % SECTION_FALLBACK_COLORS.length];
+                                return (
+                                    <div
+                                        key={section.id}
+                                        className={`absolute top-0.5 bottom-0.5 rounded-sm border overflow-hidden whitespace-nowrap text-[10px] leading-4 px-1.5 ${color}`}
+                                        style={{ left: `${startSec * zoom}px`, width: `${Math.max(0, endSec - startSec) * zoom}px` }}
+                                        onDoubleClick={(e) => {
+                                            e.stopPropagation();
+                                            setEditingSectionId(section.id);
+                                        }}
+                                        title={`${section.name}: double-click to rename, drag an edge to resize`}
+                                    >
+                                        {editingSectionId === section.id ? (
+                                            <input
+                                                autoFocus
+                                                defaultValue={section.name}
+                                                className="w-full bg-stone-900/80 text-stone-100 text-[10px] leading-4 px-1 rounded-sm outline-none"
+                                                onMouseDown={(e) => e.stopPropagation()}
+                                                onClick={(e) => e.stopPropagation()}
+                                                onBlur={(e) => {
+                                                    onRenameSection(section.id, e.target.value);
+                                                    setEditingSectionId(null);
+                                                }}
+                                                onKeyDown={(e) => {
+                                                    e.stopPropagation();
+                                                    if (e.key === 'Escape') e.currentTarget.value = section.name;
+                                                    if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                                                }}
+                                            />
+                                        ) : (
+                                            <span className="pointer-events-none">{section.name}</span>
+                                        )}
+                                        <div
+                                            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+                                            onMouseDown={(e) => handleSectionDragStart(e, section.id, 'start', startSec)}
+                                            onClick={(e) => e.stopPropagation()}
+                                        />
+                                        <div
+                                            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+                                            onMouseDown={(e) => handleSectionDragStart(e, section.id, 'end', endSec)}
+                                            onClick={(e) => e.stopPropagation()}
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
                     <div 
-                        key={track.id} 
                         className="relative border-b border-stone-800 w-full hover:bg-stone-800/40 transition-colors"
                         style={{ height: `${TRACK_HEIGHT}px` }}
+                        onDoubleClick={track.type === 'audio' ? (e) => onAddBeat(getTimeSecFromClientX(e.clientX)) : undefined}
                     >
                         {/* Track Label */}
                         <div className="absolute left-2 top-2 z-10 text-xs text-stone-500 font-bold uppercase pointer-events-none opacity-50 mix-blend-difference">
                             {track.type}
                         </div>
 
-                        {track.type === 'audio' && waveform.length > 1 && (
-                            <div className="absolute inset-0 z-0 pointer-events-none">
+                        {track.type === 'audio' && waveformRender && (
+                            <div className="absolute inset-y-0 left-0 z-0 pointer-events-none">
                                 <svg
-                                    className="w-full h-full"
-                                    viewBox={`0 0 ${waveform.length - 1} 1`}
+                                    className="h-full"
+                                    style={{ width: `${waveformRender.widthPx}px` }}
+                                    viewBox={`0 0 ${waveformRender.peakCount} 1`}
                                     preserveAspectRatio="none"
                                 >
                                     <path
-                                        d={waveformPath}
+                                        d={waveformRender.path}
                                         fill="rgba(37,99,235,0.2)"
                                         stroke="rgba(37,99,235,0.6)"
                                         strokeWidth="0.02"
@@ -220,18 +535,50 @@ const Timeline: React.FC<TimelineProps> = ({
                             </div>
                         )}
 
+                        {track.type === 'audio' && onsetPath && (
+                            <svg
+                                className="absolute inset-y-0 left-0 z-20 h-full pointer-events-none"
+                                style={{ width: `${onsetSpanSec * zoom}px` }}
+                                viewBox={`0 0 ${onsetSpanSec} 1`}
+                                preserveAspectRatio="none"
+                            >
+                                <path d={onsetPath} stroke="rgba(52,211,153,0.7)" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                            </svg>
+                        )}
+
+                        {/* Beat markers: drag to re-anchor, right-click to delete, double-click the lane to add */}
                         {track.type === 'audio' &&
-                            beatGrid.beats.map((beatTime, idx) => (
-                                <div
-                                    key={idx}
-                                    className="absolute top-1 bottom-1 w-px bg-blue-300/70 pointer-events-none shadow-[0_0_6px_rgba(37,99,235,0.6)]"
-                                    style={{ left: `${beatTime * zoom}px` }}
-                                />
-                            ))}
+                            beatGrid.beats.map((beatTime, idx) => {
+                                const isDragging = beatDrag?.index === idx;
+                                return (
+                                    <div
+                                        key={idx}
+                                        className="absolute top-1 bottom-1 w-2 -ml-1 z-30 cursor-ew-resize"
+                                        style={{ left: `${(isDragging ? beatDrag.timeSec : beatTime) * zoom}px` }}
+                                        onMouseDown={(e) => handleBeatDragStart(e, idx)}
+                                        onClick={(e) => e.stopPropagation()}
+                                        onDoubleClick={(e) => e.stopPropagation()}
+                                        onContextMenu={(e) => {
+                                            e.preventDefault();
+                                            e.stopPropagation();
+                                            onRemoveBeat(idx);
+                                        }}
+                                        title="Drag to re-anchor the grid from this beat, right-click to delete it"
+                                    >
+                                        <div
+                                            className={`mx-auto h-full w-px shadow-[0_0_6px_rgba(37,99,235,0.6)] ${
+                                                isDragging ? 'bg-amber-300' : 'bg-blue-300/70'
+                                            }`}
+                                        />
+                                    </div>
+                                );
+                            })}
 
                         {/* Segments */}
-                        {track.segments.map((seg) => {
+                        {(segmentDrag?.active && segmentDrag.trackId === track.id ? segmentDrag.segments : track.segments).map((seg) => {
                             const isSelected = selectedSegmentId === seg.id;
+                            const isDragged = segmentDrag?.active && segmentDrag.id === seg.id;
+                            const canDrag = track.type === 'video' && !seg.locked && !insertBeforeMode;
                             const isAudioTrack = track.type === 'audio';
                             const clipName = clipNameById.get(seg.sourceClipId) ?? 'Untitled clip';
                             const fadeIn = seg.fadeIn ?? defaultFadeIn;
@@ -250,14 +597,23 @@ const Timeline: React.FC<TimelineProps> = ({
                             <div
                                 key={seg.id}
                                 onClick={(e) => { e.stopPropagation(); onSelectSegment(seg.id); }}
-                                onMouseDown={(e) => { e.stopPropagation(); }}
-                                className={`absolute top-2 bottom-2 rounded cursor-pointer overflow-hidden border transition-colors ${
+                                onMouseDown={(e) => {
+                                    if (canDrag) {
+                                        handleSegmentDragStart(e, seg.id, 'move');
+                                    } else {
+                                        e.stopPropagation();
+                                    }
+                                }}
+                                className={`absolute top-2 bottom-2 rounded overflow-hidden border transition-colors ${
                                     isAudioTrack ? `${baseClass} ${audioClass}` : baseClass
-                                } ${insertBeforeMode ? 'ring-2 ring-blue-500 cursor-copy' : ''}`}
+                                } ${seg.locked ? 'border-dashed' : ''} ${
+                                    insertBeforeMode ? 'ring-2 ring-blue-500 cursor-copy' : canDrag ? 'cursor-grab' : 'cursor-pointer'
+                                } ${isDragged ? 'cursor-grabbing ring-1 ring-amber-200' : ''}`}
                                 style={{
                                     left: `${(seg.timelineStart / 1000) * zoom}px`,
                                     width: `${(seg.duration / 1000) * zoom}px`
                                 }}
+                                title={canDrag ? `Drag to ${editMode === 'slip' ? 'slip' : 'move'}, drag an edge to trim` : undefined}
                             >
                                 {fadeInPx && (
                                     <div
@@ -277,13 +633,26 @@ const Timeline: React.FC<TimelineProps> = ({
                                     </span>
                                     {!isAudioTrack && (
                                         <span className="text-[9px] text-amber-200/70">
-                                            {(seg.duration / 1000).toFixed(2)}s
+                                            {(seg.duration / 1000).toFixed(2)}s{seg.locked ? ' · locked' : ''}
                                         </span>
                                     )}
                                 </div>
+                                {canDrag && (
+                                    <>
+                                        <div
+                                            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-amber-200/40"
+                                            onMouseDown={(e) => handleSegmentDragStart(e, seg.id, 'trim-start')}
+                                        />
+                                        <div
+                                            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-amber-200/40"
+                                            onMouseDown={(e) => handleSegmentDragStart(e, seg.id, 'trim-end')}
+                                        />
+                                    </>
+                                )}
                             </div>
                         )})}
                     </div>
+                    </React.Fragment>
                 ))}
 
                 {/* Playhead */}
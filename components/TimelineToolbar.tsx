@@ -0,0 +1,86 @@
+import React from 'react';
+import { Magnet, ZoomIn, ZoomOut } from 'lucide-react';
+import { EditMode, SnapResolution } from '../types';
+import { EDIT_MODE_OPTIONS, SNAP_RESOLUTION_OPTIONS } from '../constants';
+
+interface TimelineToolbarProps {
+    zoom: number;
+    onZoomChange: (zoom: number) => void;
+    snapResolution: SnapResolution;
+    onSnapResolutionChange: (resolution: SnapResolution) => void;
+    editMode: EditMode;
+    onEditModeChange: (mode: EditMode) => void;
+}
+
+const TimelineToolbar: React.FC<TimelineToolbarProps> = ({
+    zoom,
+    onZoomChange,
+    snapResolution,
+    onSnapResolutionChange,
+    editMode,
+    onEditModeChange
+}) => {
+    return (
+        <div className="flex-none h-9 bg-stone-900 border-t border-stone-800 flex items-center justify-end gap-4 px-4 select-none">
+            <div className="flex items-center gap-2">
+                <span className="text-xs uppercase tracking-wide text-stone-500">Edit</span>
+                <div className="flex overflow-hidden rounded border border-stone-700" role="group" aria-label="Edit mode">
+                    {EDIT_MODE_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            onClick={() => onEditModeChange(option.value)}
+                            aria-pressed={editMode === option.value}
+                            className={`px-2 py-0.5 text-xs transition-colors ${
+                                editMode === option.value
+                                    ? 'bg-amber-500 text-stone-950'
+                                    : 'bg-stone-800 text-stone-300 hover:bg-stone-700 hover:text-stone-100'
+                            }`}
+                            title={option.description}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="h-5 w-px bg-stone-700/80"></div>
+            <label
+                className="flex items-center gap-2 text-xs uppercase tracking-wide text-stone-500"
+                title="Seeking, moving and trimming snap to this grid, segment edges and the playhead; hold Alt to place freely"
+            >
+                <Magnet size={14} className={snapResolution === 'off' ? 'text-stone-600' : 'text-amber-400'} />
+                Snap
+                <select
+                    value={snapResolution}
+                    onChange={(e) => onSnapResolutionChange(e.target.value as SnapResolution)}
+                    className="rounded border border-stone-700 bg-stone-800 px-2 py-0.5 text-xs normal-case text-stone-200 focus:border-amber-400 focus:outline-none"
+                >
+                    {SNAP_RESOLUTION_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </label>
+            <div className="h-5 w-px bg-stone-700/80"></div>
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={() => onZoomChange(zoom * 0.9)}
+                    className="p-1 rounded text-stone-300 hover:bg-stone-800 hover:text-stone-100 transition-colors"
+                    aria-label="Zoom out"
+                    title="Zoom out (Ctrl -)"
+                >
+                    <ZoomOut size={14} />
+                </button>
+                <span className="w-16 text-center text-xs text-stone-400">{Math.round(zoom)} px/s</span>
+                <button
+                    onClick={() => onZoomChange(zoom * 1.1)}
+                    className="p-1 rounded text-stone-300 hover:bg-stone-800 hover:text-stone-100 transition-colors"
+                    aria-label="Zoom in"
+                    title="Zoom in (Ctrl +)"
+                >
+                    <ZoomIn size={14} />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default TimelineToolbar;
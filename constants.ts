@@ -1,10 +1,45 @@
+import { EditMode, SnapResolution, TimeSignature } from './types';
+
 export const TIMELINE_ZOOM_MIN = 10; // pixels per second
 export const TIMELINE_ZOOM_MAX = 500;
 export const DEFAULT_ZOOM = 50; // pixels per second
 export const DEFAULT_FPS = 30;
-export const BEATS_PER_BAR = 4;
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beatsPerBar: 4, beatUnit: 4 };
+export const TIME_SIGNATURE_PRESETS: TimeSignature[] = [
+  { beatsPerBar: 2, beatUnit: 4 },
+  { beatsPerBar: 3, beatUnit: 4 },
+  { beatsPerBar: 4, beatUnit: 4 },
+  { beatsPerBar: 5, beatUnit: 4 },
+  { beatsPerBar: 6, beatUnit: 8 },
+  { beatsPerBar: 7, beatUnit: 8 },
+  { beatsPerBar: 12, beatUnit: 8 },
+];
+
+// Auto-sync cut lengths offered per section or range, in bars.
+export const CUT_LENGTH_OPTIONS = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+export const SNAP_RESOLUTION_OPTIONS: { value: SnapResolution; label: string }[] = [
+  { value: 'bar', label: 'Bar' },
+  { value: 'beat', label: 'Beat' },
+  { value: '1/2', label: '1/2 beat' },
+  { value: '1/4', label: '1/4 beat' },
+  { value: 'off', label: 'Off' },
+];
+export const DEFAULT_SNAP_RESOLUTION: SnapResolution = 'beat';
+
+export const EDIT_MODE_OPTIONS: { value: EditMode; label: string; description: string }[] = [
+  { value: 'standard', label: 'Standard', description: 'Move and trim within the free space around a segment' },
+  { value: 'ripple', label: 'Ripple', description: 'Later segments follow trims, moves and removals, up to the first locked one' },
+  { value: 'roll', label: 'Roll', description: 'Drag an edge to move the cut between two touching segments' },
+  { value: 'slip', label: 'Slip', description: 'Drag a segment to change which frames it shows' },
+  { value: 'slide', label: 'Slide', description: 'Drag a segment between its neighbors; they grow or shrink to fill' },
+];
+// Removing a segment and changing its duration in the Inspector rippled before edit modes existed.
+export const DEFAULT_EDIT_MODE: EditMode = 'ripple';
 
 export const TRACK_HEIGHT = 80;
+export const SECTION_LANE_HEIGHT = 20;
+export const WAVEFORM_MAX_RENDER_PEAKS = 200000; // Per channel, keeps the SVG path manageable
 export const HEADER_HEIGHT = 64;
 export const SIDEBAR_WIDTH = 300;
 export const INSPECTOR_WIDTH = 300;
@@ -16,3 +51,18 @@ export const COLOR_PALETTE = {
   segmentBg: '#6366f1', // indigo-500
   playhead: '#ef4444', // red-500
 };
+
+// Song section bands by lowercase name; other names cycle through the fallbacks.
+export const SECTION_COLORS: Record<string, string> = {
+  intro: 'bg-teal-500/25 border-teal-400/70 text-teal-100',
+  verse: 'bg-sky-500/25 border-sky-400/70 text-sky-100',
+  chorus: 'bg-amber-500/25 border-amber-400/70 text-amber-100',
+  drop: 'bg-rose-500/30 border-rose-400/70 text-rose-100',
+  break: 'bg-violet-500/25 border-violet-400/70 text-violet-100',
+  outro: 'bg-emerald-500/25 border-emerald-400/70 text-emerald-100',
+};
+export const SECTION_FALLBACK_COLORS = [
+  'bg-lime-500/25 border-lime-400/70 text-lime-100',
+  'bg-fuchsia-500/25 border-fuchsia-400/70 text-fuchsia-100',
+  'bg-orange-500/25 border-orange-400/70 text-orange-100',
+];
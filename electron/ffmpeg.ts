@@ -9,12 +9,15 @@ type FfmpegRunRequest = {
   args: string[];
   cwd?: string;
   durationSec?: number;
+  // Collect stdout and return it with the result (e.g. filter metadata).
+  captureOutput?: boolean;
 };
 
 type FfmpegRunResult = {
   jobId: string;
   exitCode: number | null;
   signal: NodeJS.Signals | null;
+  output?: string;
 };
 
 type ProxyRunRequest = {
@@ -36,6 +39,7 @@ type ActiveJob = {
   durationSec?: number;
   buffer: string;
   progressChannel: string;
+  output?: string;
 };
 
 const activeJobs = new Map<string, ActiveJob>();
@@ -143,6 +147,12 @@ const startFfmpeg = (
 
   activeJobs.set(jobId, job);
   attachProgressListeners(jobId, job);
+  if (request.captureOutput) {
+    job.output = "";
+    child.stdout.on("data", (chunk) => {
+      job.output += chunk.toString();
+    });
+  }
 
   return new Promise((resolve, reject) => {
     child.once("error", (error) => {
@@ -152,7 +162,12 @@ const startFfmpeg = (
 
     child.once("close", (exitCode, signal) => {
       activeJobs.delete(jobId);
-      resolve({ jobId, exitCode, signal });
+      resolve({
+        jobId,
+        exitCode,
+        signal,
+        ...(job.output !== undefined ? { output: job.output } : {}),
+      });
     });
   });
 };
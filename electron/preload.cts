@@ -11,12 +11,15 @@ type FfmpegRunRequest = {
   args: string[];
   cwd?: string;
   durationSec?: number;
+  // Collect stdout and return it with the result (e.g. filter metadata).
+  captureOutput?: boolean;
 };
 
 type FfmpegRunResult = {
   jobId: string;
   exitCode: number | null;
   signal: NodeJS.Signals | null;
+  output?: string;
 };
 
 type FfmpegProgress = {
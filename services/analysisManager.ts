@@ -0,0 +1,82 @@
+import { BeatAnalysis, LoudnessEnvelope, WaveformPeaks } from '../types';
+
+export type AnalysisWorkerRequest = {
+  channels: Float32Array[];
+  sampleRate: number;
+  beatsPerBar: number;
+  /** False only builds the waveform peaks and loudness, for tracks whose analysis was loaded from a project. */
+  detectBeats: boolean;
+};
+
+export type AnalysisWorkerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; analysis: BeatAnalysis | null; waveformPeaks: WaveformPeaks; loudness: LoudnessEnvelope }
+  | { type: 'error'; message: string };
+
+export type AnalysisResult = {
+  /** Null when the job only built waveform peaks. */
+  analysis: BeatAnalysis | null;
+  waveformPeaks: WaveformPeaks;
+  loudness: LoudnessEnvelope;
+};
+
+export type AnalysisJob = {
+  /** Resolves with null when the job was cancelled. */
+  promise: Promise<AnalysisResult | null>;
+  cancel: () => void;
+};
+
+/**
+ * Runs beat analysis and builds the waveform peak pyramid and loudness
+ * envelope for a decoded track in a Web Worker. Channel data is copied out of the AudioBuffer (playback still needs
+ * it) and the copies are transferred, not cloned. Each job gets its own
+ * worker so cancelling can simply terminate it.
+ */
+export const startAnalysis = (
+  buffer: AudioBuffer,
+  options: { beatsPerBar: number; detectBeats?: boolean; onProgress?: (progress: number) => void }
+): AnalysisJob => {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c).slice());
+  }
+
+  const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: AnalysisResult | null) => void = () => {};
+  const promise = new Promise<AnalysisResult | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        options.onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve({ analysis: message.analysis, waveformPeaks: message.waveformPeaks, loudness: message.loudness });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Beat analysis failed.'));
+    };
+  });
+
+  const request: AnalysisWorkerRequest = {
+    channels,
+    sampleRate: buffer.sampleRate,
+    beatsPerBar: options.beatsPerBar,
+    detectBeats: options.detectBeats ?? true,
+  };
+  worker.postMessage(request, channels.map(channel => channel.buffer));
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import { analyzeBeats, buildWaveformPeaks, computeLoudnessEnvelope } from './audioUtils';
+import type { AnalysisWorkerMessage, AnalysisWorkerRequest } from './analysisManager';
+
+// Share of the progress bar covered by onset detection; the rest is the
+// beat tracking, waveform peak and loudness passes that follow it.
+const DETECTION_PROGRESS_SHARE = 0.95;
+
+const post = (message: AnalysisWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { channels, sampleRate, beatsPerBar, detectBeats } = event.data;
+  try {
+    const analysis = detectBeats
+      ? analyzeBeats(channels, sampleRate, beatsPerBar, (fraction) => {
+        post({ type: 'progress', progress: fraction * DETECTION_PROGRESS_SHARE });
+      })
+      : null;
+    const waveformPeaks = buildWaveformPeaks(channels, sampleRate);
+    const loudness = computeLoudnessEnvelope(channels, sampleRate);
+    post({ type: 'result', analysis, waveformPeaks, loudness });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -1,4 +1,6 @@
-import { BeatGrid } from '../types';
+import { BeatAnalysis, BeatGrid, LoudnessEnvelope, Onset, SavedWaveformPeaks, TempoSegment, WaveformLevel, WaveformPeaks } from '../types';
+import { detectOnsets, estimateBarPhase, estimateBeatPeriod, fitBeatPhase, trackBeats } from './onsetDetection';
+import { detectSongSections } from './structureDetection';
 
 /**
  * Decodes an audio file and returns the AudioBuffer
@@ -13,130 +15,596 @@ export const decodeAudio = async (fileUrl: string): Promise<AudioBuffer> => {
   return await audioContext.decodeAudioData(arrayBuffer);
 };
 
+// Max distance (sec) a tracked beat may sit from a tempo segment's straight line.
+const TEMPO_MAP_TOLERANCE_SEC = 0.025;
+
 /**
- * Simplified Beat Detection Algorithm
- * Based on energy thresholds in local windows.
+ * Beat detection from the spectral-flux onset envelope.
+ * Tempo comes from the envelope autocorrelation, phase and fine period from
+ * fitting the detected onsets. When the tracked beats drift away from that
+ * constant grid, they're turned into a multi-segment tempo map.
+ * Takes raw channel data rather than an AudioBuffer so it can run in a worker.
  */
-export const analyzeBeats = (buffer: AudioBuffer): BeatGrid => {
-  const channelData = buffer.getChannelData(0);
-  const sampleRate = buffer.sampleRate;
-  
-  // 1. Break into windows (e.g., 20ms) and calculate RMS
-  const windowSize = Math.floor(sampleRate * 0.05); // 50ms window
-  
-  // Calculate RMS for windows
-  const volumeArray: number[] = [];
-  for (let i = 0; i < channelData.length; i += windowSize) {
-    let sum = 0;
-    for (let j = 0; j < windowSize; j++) {
-      if (i + j < channelData.length) {
-        sum += channelData[i + j] * channelData[i + j];
-      }
-    }
-    const rms = Math.sqrt(sum / windowSize);
-    volumeArray.push(rms);
-  }
-
-  // 2. Simple thresholding for peaks (Very basic onset detection)
-  // Lowered threshold to detect quieter intros
-  const threshold = 0.05; 
-  const beatIndices: number[] = [];
-  
-  // Local average to detect spikes relative to background
-  for (let i = 1; i < volumeArray.length - 1; i++) {
-    const localAvg = (volumeArray[i - 1] + volumeArray[i] + volumeArray[i + 1]) / 3;
-    if (volumeArray[i] > localAvg * 1.3 && volumeArray[i] > threshold) {
-        // Debounce: ensure we don't pick multiple peaks too close
-        if (beatIndices.length === 0 || (i - beatIndices[beatIndices.length - 1]) > 5) {
-             beatIndices.push(i);
-        }
-    }
-  }
-
-  // Convert window indices back to seconds
-  const beatTimes = beatIndices.map(idx => (idx * windowSize) / sampleRate);
+export const analyzeBeats = (
+  channels: Float32Array[],
+  sampleRate: number,
+  beatsPerBar: number,
+  onProgress?: (fraction: number) => void
+): BeatAnalysis => {
+  const durationSec = channels.length > 0 ? channels[0].length / sampleRate : 0;
+  const detection = detectOnsets(channels, sampleRate, onProgress);
 
-  // 3. Estimate BPM (Naive Interval Histogram)
   let bpm = 120; // Default fallback
-  if (beatTimes.length > 1) {
-    const intervals: number[] = [];
-    for (let i = 1; i < beatTimes.length; i++) {
-      const interval = beatTimes[i] - beatTimes[i - 1];
-      if (interval > 0.3 && interval < 1.0) { // Limit to 60-200 BPM range approx
-        intervals.push(interval);
-      }
-    }
-    
-    // Sort and find median interval
-    intervals.sort((a, b) => a - b);
-    if (intervals.length > 0) {
-        const medianInterval = intervals[Math.floor(intervals.length / 2)];
-        bpm = Math.round(60 / medianInterval);
-    }
+  let anchorBeat = detection.onsets.length > 0 ? detection.onsets[0].time : 0;
+  const period = estimateBeatPeriod(detection);
+  if (!period) {
+    const fallbackGrid = buildBeatGrid(bpm, anchorBeat, durationSec, beatsPerBar);
+    const grid = { ...fallbackGrid, barPhase: estimateBarPhase(detection, fallbackGrid.beats, beatsPerBar) };
+    return {
+      beatGrid: grid,
+      onsets: detection.onsets,
+      sections: detectSongSections(detection, getDownbeatTimes(grid, beatsPerBar), durationSec),
+    };
   }
 
   // Refine BPM to standard ranges if it's weird
-  if (bpm < 60) bpm *= 2;
-  if (bpm > 180) bpm /= 2;
+  let normalizedPeriod = period;
+  if (60 / normalizedPeriod > 180) normalizedPeriod *= 2;
+  const fit = fitBeatPhase(detection, normalizedPeriod);
+  bpm = Math.round((60 / fit.period) * 100) / 100;
+  anchorBeat = fit.anchor;
 
-  // Generate a clean grid based on the estimated BPM
-  // Find the first detected beat to use as an anchor
-  const anchorBeat = beatTimes.length > 0 ? beatTimes[0] : 0;
-  const { beats: uniqueBeats } = buildBeatGrid(bpm, anchorBeat, buffer.duration);
+  const tracked = trackBeats(detection, fit.anchor, fit.period, durationSec);
+  const maxDrift = tracked.reduce(
+    (max, beat, idx) => Math.max(max, Math.abs(beat - (fit.anchor + idx * fit.period))),
+    0
+  );
+  const tempoMap = maxDrift > TEMPO_MAP_TOLERANCE_SEC * 1.5
+    ? deriveTempoMap(tracked)
+    : [{ time: anchorBeat, bpm }];
 
+  const rawGrid = buildBeatGridFromTempoMap(tempoMap, durationSec, beatsPerBar);
+  const beatGrid = { ...rawGrid, barPhase: estimateBarPhase(detection, rawGrid.beats, beatsPerBar) };
   return {
-    bpm,
-    offset: anchorBeat,
-    beats: uniqueBeats,
+    beatGrid,
+    onsets: detection.onsets,
+    sections: detectSongSections(detection, getDownbeatTimes(beatGrid, beatsPerBar), durationSec),
   };
 };
 
-export const buildBeatGrid = (bpm: number, offset: number, durationSec: number): BeatGrid => {
-  const cleanBeats: number[] = [];
-  const spb = 60 / bpm;
+/**
+ * Splits a list of beat times into constant-tempo segments: each segment runs
+ * from one beat to a later one as long as every beat in between stays within
+ * TEMPO_MAP_TOLERANCE_SEC of the straight line joining them.
+ */
+export const deriveTempoMap = (beats: number[]): TempoSegment[] => {
+  const segments: TempoSegment[] = [];
+  let start = 0;
+  while (start < beats.length - 1) {
+    let end = start + 1;
+    while (end + 1 < beats.length) {
+      const candidate = end + 1;
+      const spb = (beats[candidate] - beats[start]) / (candidate - start);
+      let fits = true;
+      for (let k = start + 1; k < candidate; k++) {
+        if (Math.abs(beats[k] - (beats[start] + (k - start) * spb)) > TEMPO_MAP_TOLERANCE_SEC) {
+          fits = false;
+          break;
+        }
+      }
+      if (!fits) break;
+      end = candidate;
+    }
+    const spb = (beats[end] - beats[start]) / (end - start);
+    segments.push({ time: beats[start], bpm: Math.round((60 / spb) * 100) / 100 });
+    start = end;
+  }
+  return segments;
+};
 
-  const start = Number.isFinite(offset) ? offset : 0;
-  let t = start;
-  while (t > 0) {
-    t -= spb;
+const sanitizeTempoMap = (tempoMap: TempoSegment[]) =>
+  tempoMap
+    .filter(segment => Number.isFinite(segment.time) && Number.isFinite(segment.bpm) && segment.bpm > 0)
+    .sort((a, b) => a.time - b.time);
+
+const wrapBarPhase = (phase: number, beatsPerBar: number) =>
+  ((Math.round(phase) % beatsPerBar) + beatsPerBar) % beatsPerBar;
+
+/**
+ * Lays out beats for every tempo segment. Beats before the first segment are
+ * extrapolated back toward 0 and the last segment runs to the end of the track.
+ * The first segment's start is treated as a downbeat.
+ */
+export const buildBeatGridFromTempoMap = (
+  tempoMap: TempoSegment[],
+  durationSec: number,
+  beatsPerBar: number
+): BeatGrid => {
+  const segments = sanitizeTempoMap(tempoMap);
+  if (segments.length === 0) {
+    return { bpm: 120, offset: 0, beats: [], tempoMap: [], barPhase: 0, edited: false };
   }
 
-  while (t < durationSec) {
+  const cleanBeats: number[] = [];
+  // Beats laid out before the anchor, minus anchor-side beats dropped below 0.
+  let anchorIndex = 0;
+  const pushBeat = (t: number) => {
     if (t >= -0.1) {
       cleanBeats.push(Math.max(0, t));
+      return true;
     }
-    t += spb;
+    return false;
+  };
+
+  const first = segments[0];
+  const firstSpb = 60 / first.bpm;
+  let t = first.time;
+  while (t > 0) {
+    t -= firstSpb;
+  }
+  while (t < first.time - firstSpb * 0.5) {
+    if (pushBeat(t)) anchorIndex += 1;
+    t += firstSpb;
   }
 
+  segments.forEach((segment, idx) => {
+    const next = segments[idx + 1];
+    const spb = 60 / segment.bpm;
+    const end = next ? next.time - spb * 0.5 : durationSec;
+    for (let beat = segment.time; beat < end; beat += spb) {
+      if (!pushBeat(beat) && idx === 0) anchorIndex -= 1;
+    }
+  });
+
   const uniqueBeats = [...new Set(cleanBeats)];
   uniqueBeats.sort((a, b) => a - b);
 
   return {
+    bpm: first.bpm,
+    offset: first.time,
+    beats: uniqueBeats,
+    tempoMap: segments,
+    barPhase: wrapBarPhase(anchorIndex - (cleanBeats.length - uniqueBeats.length), beatsPerBar),
+    edited: false,
+  };
+};
+
+export const buildBeatGrid = (
+  bpm: number,
+  offset: number,
+  durationSec: number,
+  beatsPerBar: number
+): BeatGrid => {
+  const start = Number.isFinite(offset) ? offset : 0;
+  return {
+    ...buildBeatGridFromTempoMap([{ time: start, bpm }], durationSec, beatsPerBar),
     bpm,
     offset: start,
+  };
+};
+
+/**
+ * Moves the whole grid (beats and tempo map) by deltaSec. Beats pushed below 0
+ * collapse into one beat at 0, so the bar phase is pulled back by the number
+ * of beats that disappeared.
+ */
+export const shiftBeatGrid = (grid: BeatGrid, deltaSec: number, beatsPerBar: number): BeatGrid => {
+  const shiftedBeats = grid.beats.map(beat => Math.max(0, beat + deltaSec));
+  const uniqueBeats = [...new Set(shiftedBeats)].sort((a, b) => a - b);
+  return {
+    ...grid,
+    offset: grid.offset + deltaSec,
     beats: uniqueBeats,
+    tempoMap: grid.tempoMap.map(segment => ({ ...segment, time: segment.time + deltaSec })),
+    barPhase: wrapBarPhase(grid.barPhase - (shiftedBeats.length - uniqueBeats.length), beatsPerBar),
+  };
+};
+
+/**
+ * Fills in fields missing from grids saved by older versions: single-BPM
+ * grids become a one-segment tempo map.
+ */
+export const normalizeBeatGrid = (
+  grid: Partial<BeatGrid> | null | undefined,
+  beatsPerBar: number
+): BeatGrid => {
+  const bpm = Number.isFinite(grid?.bpm) && (grid?.bpm ?? 0) > 0 ? grid!.bpm! : 120;
+  const offset = Number.isFinite(grid?.offset) ? grid!.offset! : 0;
+  const beats = Array.isArray(grid?.beats) ? grid!.beats! : [];
+  const tempoMap = Array.isArray(grid?.tempoMap) ? sanitizeTempoMap(grid!.tempoMap!) : [];
+  return {
+    bpm,
+    offset,
+    beats,
+    tempoMap: tempoMap.length > 0 || beats.length === 0 ? tempoMap : [{ time: offset, bpm }],
+    barPhase: Number.isFinite(grid?.barPhase) ? wrapBarPhase(grid!.barPhase!, beatsPerBar) : 0,
+    edited: Boolean(grid?.edited),
+  };
+};
+
+export const isDownbeat = (grid: BeatGrid, beatIndex: number, beatsPerBar: number) =>
+  wrapBarPhase(beatIndex - grid.barPhase, beatsPerBar) === 0;
+
+/** Start times of every bar in the grid. */
+export const getDownbeatTimes = (grid: BeatGrid, beatsPerBar: number) =>
+  grid.beats.filter((_, idx) => isDownbeat(grid, idx, beatsPerBar));
+
+/**
+ * 1-based bar and beat of grid.beats[beatIndex]. Beats before the first
+ * downbeat form a pickup bar numbered 0.
+ */
+export const getBarPosition = (grid: BeatGrid, beatIndex: number, beatsPerBar: number) => {
+  const fromDownbeat = beatIndex - grid.barPhase;
+  return {
+    bar: Math.floor(fromDownbeat / beatsPerBar) + 1,
+    beat: wrapBarPhase(fromDownbeat, beatsPerBar) + 1,
+  };
+};
+
+/**
+ * Rotates which beat counts as "1" by `steps` beats.
+ */
+export const rotateBarPhase = (grid: BeatGrid, steps: number, beatsPerBar: number): BeatGrid => ({
+  ...grid,
+  barPhase: wrapBarPhase(grid.barPhase + steps, beatsPerBar),
+});
+
+/**
+ * Time of the first downbeat, or null for an empty grid.
+ */
+export const getFirstDownbeatSec = (grid: BeatGrid) => grid.beats[grid.barPhase] ?? null;
+
+/**
+ * Sets the bar phase so the beat closest to downbeatSec becomes a downbeat.
+ */
+export const alignBarPhase = (grid: BeatGrid, downbeatSec: number, beatsPerBar: number): BeatGrid => {
+  if (grid.beats.length === 0 || !Number.isFinite(downbeatSec)) return grid;
+  let nearest = 0;
+  grid.beats.forEach((beat, idx) => {
+    if (Math.abs(beat - downbeatSec) < Math.abs(grid.beats[nearest] - downbeatSec)) {
+      nearest = idx;
+    }
+  });
+  return { ...grid, barPhase: wrapBarPhase(nearest, beatsPerBar) };
+};
+
+// Closest two hand-placed beats may get to each other.
+const MIN_BEAT_GAP_SEC = 0.05;
+
+/**
+ * Rebuilds the grid around hand-edited beats: the tempo map is re-derived from
+ * them so bar math follows the edit, and the bar phase keeps downbeatSec as a
+ * downbeat.
+ */
+const withEditedBeats = (
+  grid: BeatGrid,
+  beats: number[],
+  downbeatSec: number | null,
+  beatsPerBar: number
+): BeatGrid => {
+  const sorted = [...new Set(beats.filter(Number.isFinite).map(beat => Math.max(0, beat)))]
+    .sort((a, b) => a - b);
+  const tempoMap = sorted.length > 1 ? deriveTempoMap(sorted) : [];
+  const edited: BeatGrid = {
+    bpm: tempoMap[0]?.bpm ?? grid.bpm,
+    offset: sorted[0] ?? grid.offset,
+    beats: sorted,
+    tempoMap,
+    barPhase: 0,
+    edited: true,
+  };
+  return downbeatSec === null ? edited : alignBarPhase(edited, downbeatSec, beatsPerBar);
+};
+
+/**
+ * Drags beats[beatIndex] to timeSec and moves every later beat by the same
+ * amount, re-anchoring the rest of the grid on the dragged beat. The beat
+ * can't cross its left neighbour.
+ */
+export const moveBeat = (grid: BeatGrid, beatIndex: number, timeSec: number, beatsPerBar: number): BeatGrid => {
+  const current = grid.beats[beatIndex];
+  if (current === undefined || !Number.isFinite(timeSec)) return grid;
+  const previous = grid.beats[beatIndex - 1];
+  const target = previous === undefined ? Math.max(0, timeSec) : Math.max(previous + MIN_BEAT_GAP_SEC, timeSec);
+  const delta = target - current;
+  if (delta === 0) return grid;
+  const downbeat = getFirstDownbeatSec(grid);
+  const beats = grid.beats.map((beat, idx) => (idx >= beatIndex ? beat + delta : beat));
+  const movedDownbeat = downbeat !== null && grid.barPhase >= beatIndex ? downbeat + delta : downbeat;
+  return withEditedBeats(grid, beats, movedDownbeat, beatsPerBar);
+};
+
+/**
+ * Inserts a beat at timeSec unless one already sits within MIN_BEAT_GAP_SEC.
+ */
+export const addBeat = (grid: BeatGrid, timeSec: number, beatsPerBar: number): BeatGrid => {
+  if (!Number.isFinite(timeSec) || timeSec < 0) return grid;
+  if (grid.beats.some(beat => Math.abs(beat - timeSec) < MIN_BEAT_GAP_SEC)) return grid;
+  return withEditedBeats(grid, [...grid.beats, timeSec], getFirstDownbeatSec(grid), beatsPerBar);
+};
+
+export const removeBeat = (grid: BeatGrid, beatIndex: number, beatsPerBar: number): BeatGrid => {
+  if (beatIndex < 0 || beatIndex >= grid.beats.length) return grid;
+  const beats = grid.beats.filter((_, idx) => idx !== beatIndex);
+  return withEditedBeats(grid, beats, getFirstDownbeatSec(grid), beatsPerBar);
+};
+
+/**
+ * Tempo and beat position from tapped timestamps (seconds, oldest first),
+ * via a least-squares line through tap time vs. tap number. Needs at least
+ * four taps to be worth anything.
+ */
+export const estimateTapTempo = (taps: number[]): { bpm: number; anchorSec: number } | null => {
+  if (taps.length < 4) return null;
+  const n = taps.length;
+  const meanIndex = (n - 1) / 2;
+  const meanTime = taps.reduce((sum, tap) => sum + tap, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  taps.forEach((tap, idx) => {
+    covariance += (idx - meanIndex) * (tap - meanTime);
+    variance += (idx - meanIndex) * (idx - meanIndex);
+  });
+  const spb = covariance / variance;
+  if (!Number.isFinite(spb) || spb <= 0) return null;
+  return {
+    bpm: Math.round((60 / spb) * 100) / 100,
+    // Where the fitted line puts the last tap, so the grid lands on the latest beat.
+    anchorSec: meanTime + (n - 1 - meanIndex) * spb,
   };
 };
 
 /**
- * Generate a simplified waveform data array for visualization
+ * Tempo in effect at timeSec.
+ */
+export const getBpmAt = (grid: BeatGrid, timeSec: number) => {
+  let bpm = grid.tempoMap[0]?.bpm ?? grid.bpm;
+  for (const segment of grid.tempoMap) {
+    if (segment.time > timeSec) break;
+    bpm = segment.bpm;
+  }
+  return bpm;
+};
+
+/**
+ * Length in seconds of `beatCount` beats starting at startSec, following
+ * tempo changes along the way.
+ */
+export const getBeatSpanSec = (grid: BeatGrid, startSec: number, beatCount: number) => {
+  const segments = grid.tempoMap;
+  if (segments.length === 0) {
+    return (60 / grid.bpm) * beatCount;
+  }
+  let idx = 0;
+  while (idx + 1 < segments.length && segments[idx + 1].time <= startSec) {
+    idx += 1;
+  }
+  let t = startSec;
+  let remaining = beatCount;
+  while (remaining > 0) {
+    const spb = 60 / segments[idx].bpm;
+    const next = segments[idx + 1];
+    const available = next ? (next.time - t) / spb : Infinity;
+    if (available >= remaining) {
+      t += remaining * spb;
+      remaining = 0;
+    } else {
+      t = next.time;
+      remaining -= Math.max(0, available);
+      idx += 1;
+    }
+  }
+  return t - startSec;
+};
+
+// Loudness window for the beat energy curve (~23 ms at 44.1 kHz).
+const ENERGY_WINDOW_SAMPLES = 1024;
+// Share of beat energy that comes from loudness; the rest is loudness jumps.
+const ENERGY_LOUDNESS_WEIGHT = 0.6;
+
+// Maps each value to its rank in 0..1 so a few peaks can't flatten the rest.
+const rankNormalize = (values: number[]) => {
+  const order = values.map((value, idx) => ({ value, idx })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length).fill(0.5);
+  if (values.length < 2) return ranks;
+  order.forEach((item, rank) => {
+    ranks[item.idx] = rank / (values.length - 1);
+  });
+  return ranks;
+};
+
+/**
+ * Loudness of every window of the track. Scans every sample, so the analysis
+ * worker builds it once; computeBeatEnergy then only reads the windows.
+ */
+export const computeLoudnessEnvelope = (channels: Float32Array[], sampleRate: number): LoudnessEnvelope => {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const windowCount = Math.floor(length / ENERGY_WINDOW_SAMPLES);
+  const logRms = new Array<number>(windowCount);
+  for (let w = 0; w < windowCount; w++) {
+    let sum = 0;
+    const start = w * ENERGY_WINDOW_SAMPLES;
+    for (const channel of channels) {
+      for (let i = start; i < start + ENERGY_WINDOW_SAMPLES; i++) sum += channel[i] * channel[i];
+    }
+    logRms[w] = Math.log(Math.sqrt(sum / (ENERGY_WINDOW_SAMPLES * channels.length)) + 1e-6);
+  }
+  return { windowsPerSec: sampleRate / ENERGY_WINDOW_SAMPLES, logRms };
+};
+
+/**
+ * Intensity of every beat interval, 0 (calmest) to 1 (busiest): a mix of
+ * loudness and how often the loudness jumps within the beat, a cheap stand-in
+ * for onset density. One value per beat; the last beat reuses the spacing of
+ * the one before it.
  */
-export const generateWaveform = (buffer: AudioBuffer, points: number): number[] => {
-    const channelData = buffer.getChannelData(0);
-    const step = Math.ceil(channelData.length / points);
-    const waveform: number[] = [];
-    
-    for (let i = 0; i < points; i++) {
-        const start = i * step;
+export const computeBeatEnergy = (envelope: LoudnessEnvelope, beats: number[]): number[] => {
+  const { windowsPerSec, logRms } = envelope;
+  const windowCount = logRms.length;
+  if (windowCount === 0 || beats.length === 0) return beats.map(() => 0.5);
+
+  const loudness: number[] = [];
+  const jumps: number[] = [];
+  beats.forEach((beat, idx) => {
+    const next = idx + 1 < beats.length ? beats[idx + 1] : beat + (idx > 0 ? beat - beats[idx - 1] : 0.5);
+    const from = Math.min(windowCount - 1, Math.max(0, Math.floor(beat * windowsPerSec)));
+    const to = Math.min(windowCount, Math.max(from + 1, Math.floor(next * windowsPerSec)));
+    let level = 0;
+    let rise = 0;
+    for (let w = from; w < to; w++) {
+      level += logRms[w];
+      if (w > 0) rise += Math.max(0, logRms[w] - logRms[w - 1]);
+    }
+    loudness.push(level / (to - from));
+    jumps.push(rise / (to - from));
+  });
+
+  const loudnessRank = rankNormalize(loudness);
+  const jumpRank = rankNormalize(jumps);
+  return loudnessRank.map((value, idx) =>
+    ENERGY_LOUDNESS_WEIGHT * value + (1 - ENERGY_LOUDNESS_WEIGHT) * jumpRank[idx]
+  );
+};
+
+// Finest pyramid level; 128 samples is ~3 ms at 44.1 kHz, finer than the max zoom needs.
+const WAVEFORM_BASE_SAMPLES_PER_PEAK = 128;
+// Stop adding coarser levels once one has this few peaks.
+const WAVEFORM_MIN_LEVEL_PEAKS = 512;
+const WAVEFORM_PEAK_SCALE = 127;
+// Project files keep only levels this coarse (peaks per channel), enough for
+// the default zoom until the full pyramid is rebuilt.
+const WAVEFORM_SAVED_MAX_PEAKS = 8192;
+
+/**
+ * Min/max peak pyramid for every channel. The finest level scans every
+ * sample; each coarser level merges pairs of peaks from the one below it, so
+ * the Timeline can draw about one peak per pixel at any zoom.
+ */
+export const buildWaveformPeaks = (channels: Float32Array[], sampleRate: number): WaveformPeaks => {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const peakCount = Math.ceil(length / WAVEFORM_BASE_SAMPLES_PER_PEAK);
+  const base: WaveformLevel = {
+    samplesPerPeak: WAVEFORM_BASE_SAMPLES_PER_PEAK,
+    channels: channels.map(data => {
+      const peaks = new Array<number>(peakCount * 2);
+      for (let p = 0; p < peakCount; p++) {
+        let min = 0;
         let max = 0;
-        // Optimization: don't check every sample, check a subset
-        for (let j = 0; j < step; j+=100) {
-            if (start + j < channelData.length) {
-                const val = Math.abs(channelData[start + j]);
-                if (val > max) max = val;
-            }
+        const end = Math.min(length, (p + 1) * WAVEFORM_BASE_SAMPLES_PER_PEAK);
+        for (let i = p * WAVEFORM_BASE_SAMPLES_PER_PEAK; i < end; i++) {
+          const value = data[i];
+          if (value < min) min = value;
+          if (value > max) max = value;
         }
-        waveform.push(max);
+        peaks[p * 2] = Math.max(-WAVEFORM_PEAK_SCALE, Math.round(min * WAVEFORM_PEAK_SCALE));
+        peaks[p * 2 + 1] = Math.min(WAVEFORM_PEAK_SCALE, Math.round(max * WAVEFORM_PEAK_SCALE));
+      }
+      return peaks;
+    }),
+  };
+
+  const levels = [base];
+  let previous = base;
+  while (previous.channels.length > 0 && previous.channels[0].length / 2 > WAVEFORM_MIN_LEVEL_PEAKS) {
+    const next: WaveformLevel = {
+      samplesPerPeak: previous.samplesPerPeak * 2,
+      channels: previous.channels.map(peaks => {
+        const count = Math.ceil(peaks.length / 4);
+        const merged = new Array<number>(count * 2);
+        for (let p = 0; p < count; p++) {
+          const a = p * 4;
+          merged[p * 2] = Math.min(peaks[a], peaks[a + 2] ?? peaks[a]);
+          merged[p * 2 + 1] = Math.max(peaks[a + 1], peaks[a + 3] ?? peaks[a + 1]);
+        }
+        return merged;
+      }),
+    };
+    levels.push(next);
+    previous = next;
+  }
+  return { sampleRate, length, levels };
+};
+
+/**
+ * Coarsest level that still has at least one peak per pixel at
+ * `pixelsPerSecond`, but never one with more than maxPeaks peaks.
+ */
+export const pickWaveformLevel = (
+  peaks: WaveformPeaks,
+  pixelsPerSecond: number,
+  maxPeaks: number
+): WaveformLevel | null => {
+  const peakCountOf = (level: WaveformLevel) => (level.channels[0]?.length ?? 0) / 2;
+  let picked: WaveformLevel | null = null;
+  for (let idx = peaks.levels.length - 1; idx >= 0; idx--) {
+    const level = peaks.levels[idx];
+    if (picked && peakCountOf(level) > maxPeaks) break;
+    picked = level;
+    if (peaks.sampleRate / level.samplesPerPeak >= pixelsPerSecond) break;
+  }
+  return picked;
+};
+
+const encodePeaks = (peaks: number[]) => {
+  let binary = '';
+  peaks.forEach((value) => {
+    binary += String.fromCharCode(value & 0xff);
+  });
+  return btoa(binary);
+};
+
+const decodePeaks = (encoded: string) => {
+  const binary = atob(encoded);
+  const peaks = new Array<number>(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    const byte = binary.charCodeAt(i);
+    peaks[i] = byte > 127 ? byte - 256 : byte;
+  }
+  return peaks;
+};
+
+/** The coarse levels of a peak pyramid in the compact form project files store. */
+export const packWaveformPeaks = (peaks: WaveformPeaks): SavedWaveformPeaks => ({
+  sampleRate: peaks.sampleRate,
+  length: peaks.length,
+  levels: peaks.levels
+    .filter(level => (level.channels[0]?.length ?? 0) / 2 <= WAVEFORM_SAVED_MAX_PEAKS)
+    .map(level => ({ samplesPerPeak: level.samplesPerPeak, channels: level.channels.map(encodePeaks) })),
+});
+
+/**
+ * Unpacks the coarse levels read from a project file; anything malformed
+ * (including the number arrays older projects saved) becomes null.
+ */
+export const normalizeWaveformPeaks = (value: unknown): WaveformPeaks | null => {
+  const peaks = value as Partial<SavedWaveformPeaks> | null | undefined;
+  if (!peaks || typeof peaks !== 'object' || Array.isArray(peaks)) return null;
+  if (!Number.isFinite(peaks.sampleRate) || !Number.isFinite(peaks.length) || !Array.isArray(peaks.levels)) {
+    return null;
+  }
+  const levels: WaveformLevel[] = [];
+  peaks.levels.forEach(level => {
+    if (!Number.isFinite(level?.samplesPerPeak) || !Array.isArray(level?.channels) || level.channels.length === 0) return;
+    if (!level.channels.every(channel => typeof channel === 'string')) return;
+    try {
+      levels.push({ samplesPerPeak: level.samplesPerPeak, channels: level.channels.map(decodePeaks) });
+    } catch {
+      // Not valid base64; leave the level out.
     }
-    return waveform;
+  });
+  return levels.length > 0 ? { sampleRate: peaks.sampleRate!, length: peaks.length!, levels } : null;
+};
+
+const isOnset = (value: unknown): value is Onset => {
+  const onset = value as Partial<Onset> | null;
+  return typeof onset === 'object' && onset !== null && Number.isFinite(onset.time) && Number.isFinite(onset.strength);
+};
+
+/** Validates onsets read from a project file; drops malformed entries. */
+export const normalizeOnsets = (value: unknown): Onset[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isOnset)
+    .map((onset) => ({ time: onset.time, strength: Math.min(1, Math.max(0, onset.strength)) }))
+    .sort((a, b) => a.time - b.time);
 };
@@ -0,0 +1,59 @@
+import { SourceClip } from '../types';
+
+// Pattern slot that lets the clip-order strategy choose.
+export const PATTERN_WILDCARD = '*';
+
+export interface ClipPattern {
+  /** One entry per slot: the clips it may use, or null for a wildcard. */
+  slots: (SourceClip[] | null)[];
+  /** Tokens that matched no clip name or tag. */
+  unknown: string[];
+}
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+/** Clips a token refers to: by tag first, then by file name (with or without extension). */
+const resolveToken = (token: string, clips: SourceClip[]) => {
+  const key = token.trim().toLowerCase();
+  if (!key) return [];
+  const tagged = clips.filter((clip) => clip.tags?.some((tag) => tag.toLowerCase() === key));
+  if (tagged.length > 0) return tagged;
+  return clips.filter((clip) =>
+    clip.name.toLowerCase() === key || stripExtension(clip.name).toLowerCase() === key
+  );
+};
+
+/**
+ * Parses a pattern like `A B A C`, `hero * * *` or `"Intro shot.mp4", B`.
+ * Tokens are separated by spaces or commas, names with spaces go in quotes,
+ * and an unquoted token such as `A-B-A-C` is split on dashes when it doesn't
+ * match a clip as a whole.
+ */
+export const parseClipPattern = (pattern: string, clips: SourceClip[]): ClipPattern => {
+  const slots: (SourceClip[] | null)[] = [];
+  const unknown: string[] = [];
+  const addToken = (token: string, allowSplit: boolean) => {
+    if (token === PATTERN_WILDCARD) {
+      slots.push(null);
+      return;
+    }
+    const matched = resolveToken(token, clips);
+    if (matched.length > 0) {
+      slots.push(matched);
+    } else if (allowSplit && token.includes('-')) {
+      token.split('-').filter(Boolean).forEach((part) => addToken(part, false));
+    } else {
+      unknown.push(token);
+    }
+  };
+  const tokenPattern = /"([^"]+)"|[^\s,]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(pattern)) !== null) {
+    if (match[1] !== undefined) {
+      addToken(match[1], false);
+    } else {
+      addToken(match[0], true);
+    }
+  }
+  return { slots, unknown };
+};
@@ -0,0 +1,120 @@
+import { BeatGrid, CutLengthRange, SongSection, SourceClip, SyncSelection, TimeSignature, TimelineTrack } from '../types';
+
+// Oldest steps are dropped beyond this.
+const MAX_HISTORY_STEPS = 100;
+// Repeated edits of the same kind within this window (slider drags, typing) form one step.
+const COALESCE_MS = 1000;
+
+/** The project state undo/redo restores. */
+export interface EditSnapshot {
+  tracks: TimelineTrack[];
+  beatGrid: BeatGrid;
+  timeSignature: TimeSignature;
+  introSkipFrames: number;
+  clips: SourceClip[];
+  sections: SongSection[];
+  cutRanges: CutLengthRange[];
+  syncSelection: SyncSelection;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  time: number;
+  coalesceKey?: string;
+  /** State before this step (past entries) or after it (future entries). */
+  snapshot: EditSnapshot;
+}
+
+export interface EditHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+let nextEntryId = 1;
+
+/**
+ * Records a step about to be applied to `before`. Clears the redo stack. An
+ * edit with the same coalesceKey as the previous step, shortly after it,
+ * extends that step instead of adding one.
+ */
+export const recordStep = (
+  history: EditHistory,
+  label: string,
+  before: EditSnapshot,
+  coalesceKey?: string,
+  now = Date.now()
+): EditHistory => {
+  const last = history.past[history.past.length - 1];
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.time < COALESCE_MS && history.future.length === 0) {
+    return { past: [...history.past.slice(0, -1), { ...last, time: now }], future: [] };
+  }
+  const entry: HistoryEntry = { id: nextEntryId++, label, time: now, coalesceKey, snapshot: before };
+  return { past: [...history.past, entry].slice(-MAX_HISTORY_STEPS), future: [] };
+};
+
+/** Steps back once; returns null when there is nothing to undo. */
+export const undoStep = (history: EditHistory, current: EditSnapshot) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...entry, snapshot: current }],
+    },
+    snapshot: entry.snapshot,
+  };
+};
+
+/** Re-applies the last undone step; returns null when there is nothing to redo. */
+export const redoStep = (history: EditHistory, current: EditSnapshot) => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: [...history.past, { ...entry, snapshot: current, coalesceKey: undefined }],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: entry.snapshot,
+  };
+};
+
+/**
+ * Undoes or redoes until `doneCount` steps are applied (0 is the state before
+ * the first recorded step). Returns null when already there.
+ */
+export const jumpToStep = (history: EditHistory, current: EditSnapshot, doneCount: number) => {
+  let result: { history: EditHistory; snapshot: EditSnapshot } | null = null;
+  let state = { history, snapshot: current };
+  while (state.history.past.length > doneCount) {
+    result = undoStep(state.history, state.snapshot);
+    if (!result) break;
+    state = result;
+  }
+  while (state.history.past.length < doneCount) {
+    result = redoStep(state.history, state.snapshot);
+    if (!result) break;
+    state = result;
+  }
+  return result ? state : null;
+};
+
+// Filled in by background jobs rather than by edits, so a restore keeps the newest values.
+const ANALYSIS_FIELDS: (keyof SourceClip)[] = ['proxyPath', 'reverseProxyPath', 'shotStarts', 'motion'];
+
+/** Clips from a snapshot, keeping analysis results that arrived after it was taken. */
+export const mergeRestoredClips = (restored: SourceClip[], current: SourceClip[]): SourceClip[] => {
+  const currentById = new Map(current.map((clip) => [clip.id, clip]));
+  return restored.map((clip) => {
+    const live = currentById.get(clip.id);
+    if (!live) return clip;
+    const merged = { ...clip };
+    const copy = <K extends keyof SourceClip>(field: K) => {
+      if (live[field] !== undefined) merged[field] = live[field];
+    };
+    ANALYSIS_FIELDS.forEach(copy);
+    return merged;
+  });
+};
@@ -3,12 +3,15 @@ export type FfmpegRunRequest = {
   args: string[];
   cwd?: string;
   durationSec?: number;
+  // Collect stdout and return it with the result (e.g. filter metadata).
+  captureOutput?: boolean;
 };
 
 export type FfmpegRunResult = {
   jobId: string;
   exitCode: number | null;
   signal: NodeJS.Signals | null;
+  output?: string;
 };
 
 export type FfmpegProgress = {
@@ -0,0 +1,296 @@
+import { TempoSegment } from '../types';
+
+export type ImportedGrid = {
+  source: 'rekordbox' | 'traktor' | 'serato' | 'midi';
+  /** File path or name of the track the grid belongs to, when the format says. */
+  location: string | null;
+  tempoMap: TempoSegment[];
+  /** Time of a known "1", or null when the format doesn't mark bars. */
+  downbeatSec: number | null;
+};
+
+const parseXml = (text: string, format: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Not a valid ${format} file.`);
+  }
+  return doc;
+};
+
+const readNumber = (element: Element, attribute: string) => {
+  const value = Number(element.getAttribute(attribute));
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Rekordbox collection export (rekordbox.xml). Every TRACK carries its grid as
+ * TEMPO nodes: Inizio (start, sec), Bpm, and Battito, the beat of the bar the
+ * node starts on.
+ */
+export const parseRekordboxXml = (text: string): ImportedGrid[] => {
+  const doc = parseXml(text, 'Rekordbox XML');
+  return Array.from(doc.getElementsByTagName('TRACK'))
+    .map((track): ImportedGrid | null => {
+      const markers = Array.from(track.getElementsByTagName('TEMPO'))
+        .map(node => ({
+          time: readNumber(node, 'Inizio'),
+          bpm: readNumber(node, 'Bpm'),
+          beat: readNumber(node, 'Battito') ?? 1,
+          beatsPerBar: Number((node.getAttribute('Metro') ?? '4/4').split('/')[0]) || 4,
+        }))
+        .filter(marker => marker.time !== null && marker.bpm !== null && marker.bpm > 0)
+        .sort((a, b) => a.time! - b.time!);
+      if (markers.length === 0) return null;
+
+      const first = markers[0];
+      const beatsToDownbeat = (first.beatsPerBar - (first.beat - 1)) % first.beatsPerBar;
+      const location = track.getAttribute('Location');
+      return {
+        source: 'rekordbox',
+        location: location
+          ? decodeURIComponent(location.replace(/^file:\/\/localhost/, '').replace(/^file:\/\//, ''))
+          : track.getAttribute('Name'),
+        tempoMap: markers.map(marker => ({ time: marker.time!, bpm: marker.bpm! })),
+        downbeatSec: first.time! + beatsToDownbeat * (60 / first.bpm!),
+      };
+    })
+    .filter((grid): grid is ImportedGrid => grid !== null);
+};
+
+/**
+ * Traktor collection (collection.nml). Grid markers are CUE_V2 entries of
+ * TYPE 4 with START in ms; they sit on downbeats. Newer versions store a BPM
+ * per marker in a GRID child, older ones only the track-wide TEMPO.
+ */
+export const parseTraktorNml = (text: string): ImportedGrid[] => {
+  const doc = parseXml(text, 'Traktor NML');
+  return Array.from(doc.getElementsByTagName('ENTRY'))
+    .map((entry): ImportedGrid | null => {
+      const tempo = entry.getElementsByTagName('TEMPO')[0];
+      const trackBpm = tempo ? readNumber(tempo, 'BPM') : null;
+      const markers = Array.from(entry.getElementsByTagName('CUE_V2'))
+        .filter(cue => cue.getAttribute('TYPE') === '4')
+        .map(cue => {
+          const grid = cue.getElementsByTagName('GRID')[0];
+          const start = readNumber(cue, 'START');
+          return {
+            time: start === null ? null : start / 1000,
+            bpm: (grid ? readNumber(grid, 'BPM') : null) ?? trackBpm,
+          };
+        })
+        .filter(marker => marker.time !== null && marker.bpm !== null && marker.bpm > 0)
+        .sort((a, b) => a.time! - b.time!);
+      if (markers.length === 0) return null;
+
+      const location = entry.getElementsByTagName('LOCATION')[0];
+      const path = location
+        ? `${location.getAttribute('VOLUME') ?? ''}${(location.getAttribute('DIR') ?? '').replace(/\/:/g, '/')}${location.getAttribute('FILE') ?? ''}`
+        : entry.getAttribute('TITLE');
+      return {
+        source: 'traktor',
+        location: path || null,
+        tempoMap: markers.map(marker => ({ time: marker.time!, bpm: marker.bpm! })),
+        downbeatSec: markers[0].time!,
+      };
+    })
+    .filter((grid): grid is ImportedGrid => grid !== null);
+};
+
+const readSynchsafe = (view: DataView, offset: number) =>
+  ((view.getUint8(offset) & 0x7f) << 21) |
+  ((view.getUint8(offset + 1) & 0x7f) << 14) |
+  ((view.getUint8(offset + 2) & 0x7f) << 7) |
+  (view.getUint8(offset + 3) & 0x7f);
+
+const readLatin1 = (bytes: Uint8Array, start: number) => {
+  let end = start;
+  while (end < bytes.length && bytes[end] !== 0) end++;
+  return { text: String.fromCharCode(...bytes.subarray(start, end)), next: end + 1 };
+};
+
+/**
+ * Serato keeps its grid in the audio file's ID3v2 tag, in a GEOB frame named
+ * "Serato BeatGrid": a count of markers, each a float32 position (sec) followed
+ * by either the beats until the next marker or, for the last one, its BPM.
+ * Markers sit on downbeats. Returns null when the file has no such frame.
+ */
+export const parseSeratoBeatGrid = (buffer: ArrayBuffer): ImportedGrid | null => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (bytes.length < 10 || String.fromCharCode(...bytes.subarray(0, 3)) !== 'ID3') return null;
+  const version = bytes[3];
+  const tagEnd = Math.min(bytes.length, 10 + readSynchsafe(view, 6));
+
+  let offset = 10;
+  while (offset + 10 <= tagEnd) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    if (!/^[A-Z0-9]{4}$/.test(id)) break;
+    const size = version >= 4 ? readSynchsafe(view, offset + 4) : view.getUint32(offset + 4);
+    const body = offset + 10;
+    offset = body + size;
+    if (id !== 'GEOB' || offset > tagEnd) continue;
+
+    // GEOB: encoding, MIME type, file name, description, then the object itself.
+    const mime = readLatin1(bytes, body + 1);
+    const fileName = readLatin1(bytes, mime.next);
+    const description = readLatin1(bytes, fileName.next);
+    if (description.text !== 'Serato BeatGrid') continue;
+
+    const data = new DataView(buffer, description.next, offset - description.next);
+    if (data.byteLength < 6) return null;
+    const count = data.getUint32(2);
+    const markers: { time: number; value: number }[] = [];
+    for (let idx = 0; idx < count && 6 + idx * 8 + 8 <= data.byteLength; idx++) {
+      const pos = 6 + idx * 8;
+      const isLast = idx === count - 1;
+      markers.push({
+        time: data.getFloat32(pos),
+        value: isLast ? data.getFloat32(pos + 4) : data.getUint32(pos + 4),
+      });
+    }
+    if (markers.length === 0) return null;
+
+    const tempoMap = markers.map((marker, idx) => {
+      const next = markers[idx + 1];
+      // Non-terminal markers store a beat count; turn it into the BPM up to the next marker.
+      const bpm = next ? (60 * marker.value) / (next.time - marker.time) : marker.value;
+      return { time: marker.time, bpm: Math.round(bpm * 100) / 100 };
+    }).filter(segment => Number.isFinite(segment.bpm) && segment.bpm > 0);
+    return {
+      source: 'serato',
+      location: null,
+      tempoMap,
+      downbeatSec: markers[0].time,
+    };
+  }
+  return null;
+};
+
+const readVarLength = (bytes: Uint8Array, start: number) => {
+  let value = 0;
+  let offset = start;
+  while (offset < bytes.length) {
+    const byte = bytes[offset++];
+    value = (value << 7) | (byte & 0x7f);
+    if ((byte & 0x80) === 0) break;
+  }
+  return { value, next: offset };
+};
+
+/**
+ * Standard MIDI file tempo track: set-tempo and time-signature meta events
+ * from every track. BPM follows the time signature's beat unit so 6/8 counts
+ * eighths like the rest of the app; tick 0 is taken as the first downbeat.
+ */
+export const parseMidiTempoMap = (buffer: ArrayBuffer): ImportedGrid | null => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (bytes.length < 14 || String.fromCharCode(...bytes.subarray(0, 4)) !== 'MThd') {
+    throw new Error('Not a MIDI file.');
+  }
+  const trackCount = view.getUint16(10);
+  const division = view.getUint16(12);
+  if (division & 0x8000) {
+    throw new Error('SMPTE-timed MIDI files are not supported.');
+  }
+
+  const tempos: { tick: number; usPerQuarter: number }[] = [];
+  let beatUnit = 4;
+  let offset = 8 + view.getUint32(4);
+  for (let track = 0; track < trackCount && offset + 8 <= bytes.length; track++) {
+    const length = view.getUint32(offset + 4);
+    const end = Math.min(bytes.length, offset + 8 + length);
+    let pos = offset + 8;
+    let tick = 0;
+    let status = 0;
+    while (pos < end) {
+      const delta = readVarLength(bytes, pos);
+      tick += delta.value;
+      pos = delta.next;
+      if (bytes[pos] & 0x80) status = bytes[pos++];
+      if (status === 0xff) {
+        const type = bytes[pos++];
+        const len = readVarLength(bytes, pos);
+        pos = len.next;
+        if (type === 0x51 && len.value === 3) {
+          tempos.push({ tick, usPerQuarter: (bytes[pos] << 16) | (bytes[pos + 1] << 8) | bytes[pos + 2] });
+        } else if (type === 0x58 && len.value >= 2 && tick === 0) {
+          beatUnit = 2 ** bytes[pos + 1];
+        }
+        pos += len.value;
+        status = 0;
+      } else if (status === 0xf0 || status === 0xf7) {
+        const len = readVarLength(bytes, pos);
+        pos = len.next + len.value;
+        status = 0;
+      } else {
+        const kind = status & 0xf0;
+        pos += kind === 0xc0 || kind === 0xd0 ? 1 : 2;
+      }
+    }
+    offset = end;
+  }
+
+  if (tempos.length === 0 || tempos[0].tick > 0) {
+    tempos.unshift({ tick: 0, usPerQuarter: 500000 });
+  }
+  tempos.sort((a, b) => a.tick - b.tick);
+
+  const tempoMap: TempoSegment[] = [];
+  let seconds = 0;
+  tempos.forEach((tempo, idx) => {
+    if (idx > 0) {
+      const previous = tempos[idx - 1];
+      seconds += ((tempo.tick - previous.tick) / division) * (previous.usPerQuarter / 1e6);
+    }
+    const bpm = Math.round((60e6 / tempo.usPerQuarter) * (beatUnit / 4) * 100) / 100;
+    if (tempoMap.length > 0 && tempoMap[tempoMap.length - 1].time === seconds) {
+      tempoMap[tempoMap.length - 1].bpm = bpm;
+    } else {
+      tempoMap.push({ time: seconds, bpm });
+    }
+  });
+
+  return { source: 'midi', location: null, tempoMap, downbeatSec: 0 };
+};
+
+/**
+ * Picks the parser from the file extension.
+ */
+export const parseBeatGridFile = (fileName: string, buffer: ArrayBuffer): ImportedGrid[] => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'xml') return parseRekordboxXml(new TextDecoder().decode(buffer));
+  if (ext === 'nml') return parseTraktorNml(new TextDecoder().decode(buffer));
+  if (ext === 'mid' || ext === 'midi') {
+    const grid = parseMidiTempoMap(buffer);
+    return grid ? [grid] : [];
+  }
+  throw new Error(`Unsupported beat grid file: ${fileName}`);
+};
+
+const normalizePath = (path: string) => path.replace(/\\/g, '/').toLowerCase();
+const getFileName = (path: string) => normalizePath(path).split('/').pop() ?? '';
+
+/**
+ * Finds the grid for an audio clip: same path first (one side may lack the
+ * volume or drive prefix), then same file name. A lone grid without a
+ * location (MIDI, Serato) always matches.
+ */
+export const findImportedGrid = (
+  grids: ImportedGrid[],
+  clip: { filePath: string; name: string }
+): ImportedGrid | null => {
+  const clipPath = normalizePath(clip.filePath);
+  const byPath = grids.find(grid => {
+    if (!grid.location) return false;
+    const gridPath = normalizePath(grid.location);
+    return gridPath === clipPath || gridPath.endsWith(clipPath) || clipPath.endsWith(gridPath);
+  });
+  if (byPath) return byPath;
+
+  const clipNames = [getFileName(clip.filePath), getFileName(clip.name)];
+  const byName = grids.find(grid => grid.location && clipNames.includes(getFileName(grid.location)));
+  if (byName) return byName;
+
+  return grids.length === 1 && !grids[0].location ? grids[0] : null;
+};
@@ -0,0 +1,21 @@
+// How far ahead of the audio clock clicks are scheduled; must cover a few animation frames.
+export const METRONOME_LOOKAHEAD_SEC = 0.2;
+const CLICK_LENGTH_SEC = 0.05;
+
+/**
+ * Schedules one metronome click at `when` on the context's clock. Downbeats
+ * get a higher, louder click. Returns the node so it can be stopped early.
+ */
+export const scheduleClick = (ctx: AudioContext, when: number, accent: boolean): OscillatorNode => {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.frequency.value = accent ? 1760 : 1100;
+  gain.gain.setValueAtTime(0.0001, when);
+  gain.gain.exponentialRampToValueAtTime(accent ? 0.6 : 0.35, when + 0.002);
+  gain.gain.exponentialRampToValueAtTime(0.0001, when + CLICK_LENGTH_SEC);
+  oscillator.connect(gain);
+  gain.connect(ctx.destination);
+  oscillator.start(when);
+  oscillator.stop(when + CLICK_LENGTH_SEC);
+  return oscillator;
+};
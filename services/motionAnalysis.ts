@@ -0,0 +1,117 @@
+import { MotionProfile, SourceClip } from '../types';
+import { runFfmpeg } from './ffmpegBridge';
+
+const MIN_INTERVAL_SEC = 0.5;
+// Long clips are sampled more sparsely so the output stays small.
+const MAX_SAMPLES = 240;
+const ANALYSIS_WIDTH = 160;
+// Movement matters more than exposure when matching the music.
+const MOTION_WEIGHT = 0.75;
+
+export type MotionAnalysisRequest = {
+  jobId: string;
+  inputPath: string;
+  durationSec: number;
+};
+
+export const getMotionIntervalSec = (durationSec: number) =>
+  Math.max(MIN_INTERVAL_SEC, durationSec / MAX_SAMPLES);
+
+/**
+ * Arguments for a decode-only ffmpeg pass that samples one frame per interval
+ * and prints its signalstats (YAVG brightness, YDIF change) to stdout.
+ */
+export const buildMotionAnalysisArgs = (inputPath: string, intervalSec: number): string[] => [
+  '-hide_banner',
+  '-loglevel',
+  'info',
+  '-i',
+  inputPath,
+  '-an',
+  '-sn',
+  '-dn',
+  '-vf',
+  `fps=1/${intervalSec},scale=${ANALYSIS_WIDTH}:-2,signalstats,metadata=print:file=-`,
+  '-f',
+  'null',
+  '-',
+];
+
+/** Reads the YDIF/YAVG values of each printed frame into a motion profile. */
+export const parseMotionOutput = (output: string, intervalSec: number): MotionProfile => {
+  const motion: number[] = [];
+  const brightness: number[] = [];
+  output.split(/\r?\n/).forEach((line) => {
+    if (line.startsWith('frame:')) {
+      motion.push(0);
+      brightness.push(0);
+      return;
+    }
+    const match = /^lavfi\.signalstats\.(YDIF|YAVG)=(-?\d+(?:\.\d+)?)/.exec(line.trim());
+    if (!match || motion.length === 0) return;
+    const value = Number(match[2]);
+    if (!Number.isFinite(value)) return;
+    if (match[1] === 'YDIF') {
+      motion[motion.length - 1] = value;
+    } else {
+      brightness[brightness.length - 1] = Math.min(1, Math.max(0, value / 255));
+    }
+  });
+  // The first sample has nothing to differ from.
+  if (motion.length > 1) motion[0] = motion[1];
+  return { intervalSec, motion, brightness };
+};
+
+/** Measures a local video file through the ffmpeg IPC. */
+export const analyzeClipMotion = async (request: MotionAnalysisRequest): Promise<MotionProfile> => {
+  const intervalSec = getMotionIntervalSec(request.durationSec);
+  const result = await runFfmpeg({
+    jobId: request.jobId,
+    args: buildMotionAnalysisArgs(request.inputPath, intervalSec),
+    durationSec: request.durationSec,
+    captureOutput: true,
+  });
+  if (result.exitCode !== 0 || result.signal) {
+    throw new Error(`Motion analysis failed (exit ${result.exitCode ?? result.signal}).`);
+  }
+  return parseMotionOutput(result.output ?? '', intervalSec);
+};
+
+/**
+ * Visual intensity (0..1) per interval for every clip with a motion profile.
+ * Motion and brightness are ranked across all clips together, so footage that
+ * is calm compared to the rest stays low even if it is the busiest part of
+ * its own clip.
+ */
+export const getVisualIntensity = (clips: SourceClip[]) => {
+  const profiled = clips.filter((clip) => clip.motion && clip.motion.motion.length > 0);
+  // Position among all values (ties share their middle rank), 0..1.
+  const rank = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const last = Math.max(1, sorted.length - 1);
+    const countBelow = (value: number, inclusive: boolean) => {
+      let lo = 0;
+      let hi = sorted.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid] < value || (inclusive && sorted[mid] === value)) lo = mid + 1;
+        else hi = mid;
+      }
+      return lo;
+    };
+    return (value: number) => (countBelow(value, false) + countBelow(value, true) - 1) / 2 / last;
+  };
+  const motionRank = rank(profiled.flatMap((clip) => clip.motion!.motion));
+  const brightnessRank = rank(profiled.flatMap((clip) => clip.motion!.brightness));
+  const intensity = new Map<string, { intervalSec: number; values: number[] }>();
+  profiled.forEach((clip) => {
+    const { intervalSec, motion, brightness } = clip.motion!;
+    intensity.set(clip.id, {
+      intervalSec,
+      values: motion.map((value, idx) =>
+        MOTION_WEIGHT * motionRank(value) + (1 - MOTION_WEIGHT) * brightnessRank(brightness[idx] ?? 0)
+      ),
+    });
+  });
+  return intensity;
+};
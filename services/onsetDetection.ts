@@ -0,0 +1,515 @@
+import { Onset } from '../types';
+
+// Analysis runs on a decimated mono mix; onsets don't need more than ~5 kHz of bandwidth.
+const ANALYSIS_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 256;
+// Log compression keeps loud sustained parts from drowning out soft attacks.
+const LOG_COMPRESSION = 100;
+// Sliding median window (seconds) for the adaptive threshold.
+const MEDIAN_WINDOW_SEC = 0.4;
+const THRESHOLD_DELTA = 0.04;
+// Local-maximum neighbourhood (seconds) used by the peak picker.
+const PEAK_WINDOW_SEC = 0.05;
+const MIN_ONSET_SPACING_SEC = 0.06;
+const MIN_TEMPO_BPM = 60;
+const MAX_TEMPO_BPM = 200;
+const TEMPO_PRIOR_BPM = 120;
+// Share of the best lag's correlation its half lag needs to be taken instead.
+const HALF_TEMPO_RATIO = 0.35;
+// STFT frames between progress callbacks (~6 s of audio).
+const PROGRESS_INTERVAL_FRAMES = 256;
+// Upper edge of the kick/bass band used to tell beats from off-beat hi-hats.
+const LOW_BAND_HZ = 200;
+// Log-spaced bands in the per-frame spectrum kept for structure analysis.
+export const SPECTRUM_BAND_COUNT = 12;
+
+export interface OnsetDetectionResult {
+  /** Normalized spectral flux, one value per STFT frame. */
+  envelope: Float32Array;
+  /** Normalized spectral flux of the band below LOW_BAND_HZ, per frame. */
+  lowEnvelope: Float32Array;
+  /** Normalized magnitude of the band below LOW_BAND_HZ, per frame. */
+  lowEnergy: Float32Array;
+  /** Normalized magnitude per log-spaced band, SPECTRUM_BAND_COUNT values per frame. */
+  spectrum: Float32Array;
+  /** Adaptive threshold the envelope was compared against, per frame. */
+  threshold: Float32Array;
+  /** Envelope frames per second. */
+  frameRate: number;
+  /** Time in seconds that frame 0 reports onsets at. */
+  frameOffset: number;
+  onsets: Onset[];
+}
+
+/**
+ * Mixes all channels down to mono and decimates to roughly ANALYSIS_SAMPLE_RATE
+ * by averaging blocks of samples (a cheap box low-pass).
+ */
+const downmix = (channels: Float32Array[], sampleRate: number) => {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_SAMPLE_RATE));
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const outLength = Math.floor(length / factor);
+  const mono = new Float32Array(outLength);
+  const scale = 1 / (factor * Math.max(1, channels.length));
+  for (const channel of channels) {
+    for (let i = 0; i < outLength; i++) {
+      let sum = 0;
+      const start = i * factor;
+      for (let j = 0; j < factor; j++) {
+        sum += channel[start + j];
+      }
+      mono[i] += sum * scale;
+    }
+  }
+  return { mono, rate: sampleRate / factor };
+};
+
+/**
+ * In-place iterative radix-2 FFT. `re`/`im` length must equal the table size.
+ */
+const createFft = (size: number) => {
+  const levels = Math.log2(size);
+  const reverse = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let rev = 0;
+    for (let bit = 0; bit < levels; bit++) {
+      rev = (rev << 1) | ((i >>> bit) & 1);
+    }
+    reverse[i] = rev;
+  }
+  const cos = new Float32Array(size / 2);
+  const sin = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = -Math.sin((2 * Math.PI * i) / size);
+  }
+
+  return (re: Float32Array, im: Float32Array) => {
+    for (let i = 0; i < size; i++) {
+      const j = reverse[i];
+      if (j > i) {
+        const tr = re[i]; re[i] = re[j]; re[j] = tr;
+        const ti = im[i]; im[i] = im[j]; im[j] = ti;
+      }
+    }
+    for (let half = 1; half < size; half *= 2) {
+      const step = size / (half * 2);
+      for (let start = 0; start < size; start += half * 2) {
+        for (let k = 0; k < half; k++) {
+          const a = start + k;
+          const b = a + half;
+          const wr = cos[k * step];
+          const wi = sin[k * step];
+          const xr = re[b] * wr - im[b] * wi;
+          const xi = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - xr;
+          im[b] = im[a] - xi;
+          re[a] += xr;
+          im[a] += xi;
+        }
+      }
+    }
+  };
+};
+
+const normalize = (values: Float32Array) => {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i];
+  }
+  if (max > 0) {
+    for (let i = 0; i < values.length; i++) values[i] /= max;
+  }
+  return values;
+};
+
+/**
+ * STFT + half-wave rectified log-magnitude spectral flux, full band and low band,
+ * plus the raw low-band magnitude so sustained bass can be told from attacks,
+ * and a coarse band spectrum for telling song sections apart.
+ */
+const computeSpectralFlux = (
+  mono: Float32Array,
+  rate: number,
+  onProgress?: (fraction: number) => void
+) => {
+  const frameCount = mono.length >= FRAME_SIZE
+    ? Math.floor((mono.length - FRAME_SIZE) / HOP_SIZE) + 1
+    : 0;
+  const flux = new Float32Array(frameCount);
+  const lowFlux = new Float32Array(frameCount);
+  const lowEnergy = new Float32Array(frameCount);
+  const spectrum = new Float32Array(frameCount * SPECTRUM_BAND_COUNT);
+  const bins = FRAME_SIZE / 2 + 1;
+  const lowBins = Math.max(1, Math.ceil((LOW_BAND_HZ * FRAME_SIZE) / rate));
+  // Band of each bin, log-spaced from bin 1 up; the DC bin belongs to none.
+  const bandOfBin = new Int8Array(bins).fill(-1);
+  for (let bin = 1; bin < bins; bin++) {
+    const band = Math.floor((Math.log(bin) / Math.log(bins)) * SPECTRUM_BAND_COUNT);
+    bandOfBin[bin] = Math.min(SPECTRUM_BAND_COUNT - 1, band);
+  }
+  const window = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+  }
+  const fft = createFft(FRAME_SIZE);
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+  const previous = new Float32Array(bins);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = mono[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    let sum = 0;
+    let lowSum = 0;
+    let lowMagnitude = 0;
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = Math.sqrt(re[bin] * re[bin] + im[bin] * im[bin]);
+      if (bin < lowBins) lowMagnitude += magnitude;
+      if (bandOfBin[bin] >= 0) spectrum[frame * SPECTRUM_BAND_COUNT + bandOfBin[bin]] += magnitude;
+      const compressed = Math.log1p(LOG_COMPRESSION * magnitude);
+      const diff = compressed - previous[bin];
+      if (frame > 0 && diff > 0) {
+        sum += diff;
+        if (bin < lowBins) lowSum += diff;
+      }
+      previous[bin] = compressed;
+    }
+    flux[frame] = sum;
+    lowFlux[frame] = lowSum;
+    lowEnergy[frame] = lowMagnitude;
+    if (onProgress && frame % PROGRESS_INTERVAL_FRAMES === 0) {
+      onProgress(frame / frameCount);
+    }
+  }
+
+  return {
+    flux: normalize(flux),
+    lowFlux: normalize(lowFlux),
+    lowEnergy: normalize(lowEnergy),
+    spectrum: normalize(spectrum),
+  };
+};
+
+/**
+ * Sliding median plus a constant offset, so the threshold follows the local
+ * density of the music instead of a single global level.
+ */
+const computeAdaptiveThreshold = (envelope: Float32Array, frameRate: number) => {
+  const radius = Math.max(1, Math.round((MEDIAN_WINDOW_SEC * frameRate) / 2));
+  const threshold = new Float32Array(envelope.length);
+  const scratch: number[] = [];
+  for (let i = 0; i < envelope.length; i++) {
+    scratch.length = 0;
+    const from = Math.max(0, i - radius);
+    const to = Math.min(envelope.length - 1, i + radius);
+    for (let j = from; j <= to; j++) scratch.push(envelope[j]);
+    scratch.sort((a, b) => a - b);
+    threshold[i] = scratch[Math.floor(scratch.length / 2)] + THRESHOLD_DELTA;
+  }
+  return threshold;
+};
+
+const pickPeaks = (
+  envelope: Float32Array,
+  threshold: Float32Array,
+  frameRate: number,
+  frameOffset: number
+): Onset[] => {
+  const radius = Math.max(1, Math.round(PEAK_WINDOW_SEC * frameRate));
+  const minSpacing = MIN_ONSET_SPACING_SEC * frameRate;
+  const onsets: Onset[] = [];
+  let lastFrame = -Infinity;
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const value = envelope[i];
+    if (value < threshold[i]) continue;
+    let isPeak = true;
+    const from = Math.max(0, i - radius);
+    const to = Math.min(envelope.length - 1, i + radius);
+    for (let j = from; j <= to; j++) {
+      if (envelope[j] > value || (envelope[j] === value && j < i)) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (!isPeak || i - lastFrame < minSpacing) continue;
+
+    // Parabolic interpolation for sub-frame timing.
+    const prev = envelope[i - 1];
+    const next = envelope[i + 1];
+    const denom = prev - 2 * value + next;
+    const shift = denom !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (prev - next)) / denom)) : 0;
+    onsets.push({
+      time: Math.max(0, frameOffset + (i + shift) / frameRate),
+      strength: Math.min(1, value),
+    });
+    lastFrame = i;
+  }
+  return onsets;
+};
+
+/**
+ * Onset-strength pipeline: STFT -> spectral flux -> adaptive median threshold -> peak picking.
+ * onProgress gets the STFT's completed fraction, which is nearly all of the work.
+ */
+export const detectOnsets = (
+  channels: Float32Array[],
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): OnsetDetectionResult => {
+  const { mono, rate } = downmix(channels, sampleRate);
+  const frameRate = rate / HOP_SIZE;
+  // Flux rises fastest while an attack crosses the steep part of the Hann window,
+  // three quarters into the frame, so report frames at that point.
+  const frameOffset = (FRAME_SIZE * 3) / 4 / rate;
+  const { flux: envelope, lowFlux: lowEnvelope, lowEnergy, spectrum } = computeSpectralFlux(mono, rate, onProgress);
+  const threshold = computeAdaptiveThreshold(envelope, frameRate);
+  const onsets = pickPeaks(envelope, threshold, frameRate, frameOffset);
+  return { envelope, lowEnvelope, lowEnergy, spectrum, threshold, frameRate, frameOffset, onsets };
+};
+
+/**
+ * Estimates the beat period (seconds) from the autocorrelation of the
+ * thresholded onset envelope, weighted by a log-normal prior around 120 BPM.
+ * Returns null when the envelope has no periodic structure.
+ */
+export const estimateBeatPeriod = (detection: OnsetDetectionResult): number | null => {
+  const { envelope, threshold, frameRate } = detection;
+  const novelty = new Float32Array(envelope.length);
+  for (let i = 0; i < envelope.length; i++) {
+    novelty[i] = Math.max(0, envelope[i] - threshold[i] + THRESHOLD_DELTA);
+  }
+
+  const minLag = Math.max(1, Math.floor((60 / MAX_TEMPO_BPM) * frameRate));
+  const maxLag = Math.ceil((60 / MIN_TEMPO_BPM) * frameRate);
+  if (novelty.length <= maxLag + 1) return null;
+
+  const acf = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    if (lag < 1) continue;
+    let sum = 0;
+    for (let i = 0; i + lag < novelty.length; i++) {
+      sum += novelty[i] * novelty[i + lag];
+    }
+    acf[lag] = sum / (novelty.length - lag);
+  }
+
+  let bestLag = -1;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / TEMPO_PRIOR_BPM);
+    const score = acf[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0) return null;
+
+  // Accented backbeats make the bar-half lag win over the real beat. Onset
+  // peaks are a frame wide, so a half lag between two integers splits its
+  // correlation across both neighbours; sum them before comparing.
+  const halfLag = bestLag / 2;
+  if (halfLag >= minLag) {
+    const lo = Math.floor(halfLag);
+    const hi = Math.ceil(halfLag);
+    const halfAcf = lo === hi ? acf[lo] : acf[lo] + acf[hi];
+    if (halfAcf > HALF_TEMPO_RATIO * acf[bestLag]) {
+      bestLag = acf[lo] >= acf[hi] ? lo : hi;
+    }
+  }
+
+  const prev = acf[bestLag - 1];
+  const peak = acf[bestLag];
+  const next = acf[bestLag + 1];
+  const denom = prev - 2 * peak + next;
+  const shift = denom !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (prev - next)) / denom)) : 0;
+  return (bestLag + shift) / frameRate;
+};
+
+/**
+ * Refines the period with weighted least-squares fits of the onsets close to a
+ * predicted beat train, then picks the beat phase by comb-filtering the
+ * envelope (low band counted twice so kicks win over off-beat hats). The fit
+ * horizon doubles each pass so a small period error can't push distant
+ * onsets outside the match window.
+ */
+export const fitBeatPhase = (
+  detection: OnsetDetectionResult,
+  period: number
+): { anchor: number; period: number } => {
+  const { envelope, lowEnvelope, frameRate, frameOffset, onsets } = detection;
+
+  let anchor = onsets.length > 0 ? onsets[0].time : frameOffset;
+  let bestStrength = -1;
+  for (const onset of onsets) {
+    if (onset.strength > bestStrength) {
+      bestStrength = onset.strength;
+      anchor = onset.time;
+    }
+  }
+
+  const trackEnd = frameOffset + envelope.length / frameRate;
+  const maxHorizon = Math.ceil(trackEnd / period) + 1;
+  let fittedPeriod = period;
+  for (let horizon = 16; ; horizon *= 2) {
+    let sw = 0, sk = 0, st = 0, skk = 0, skt = 0;
+    let count = 0;
+    for (const onset of onsets) {
+      const k = Math.round((onset.time - anchor) / fittedPeriod);
+      if (Math.abs(k) > horizon) continue;
+      const residual = onset.time - (anchor + k * fittedPeriod);
+      if (Math.abs(residual) > fittedPeriod * 0.15) continue;
+      const w = onset.strength;
+      sw += w;
+      sk += w * k;
+      st += w * onset.time;
+      skk += w * k * k;
+      skt += w * k * onset.time;
+      count += 1;
+    }
+    const denom = sw * skk - sk * sk;
+    if (count >= 8 && denom > 0) {
+      const nextPeriod = (sw * skt - sk * st) / denom;
+      // Reject fits that wandered off the autocorrelation estimate.
+      if (Number.isFinite(nextPeriod) && Math.abs(nextPeriod - period) <= period * 0.05) {
+        fittedPeriod = nextPeriod;
+        anchor = (st - fittedPeriod * sk) / sw;
+      }
+    }
+    if (horizon >= maxHorizon) break;
+  }
+
+  const lag = fittedPeriod * frameRate;
+  let bestPhase = 0;
+  let bestScore = -1;
+  for (let phase = 0; phase < lag; phase++) {
+    let score = 0;
+    for (let pos = phase; pos < envelope.length; pos += lag) {
+      const frame = Math.round(pos);
+      if (frame >= envelope.length) break;
+      score += envelope[frame] + 2 * lowEnvelope[frame];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  // The comb only has frame resolution; pull the anchor onto the onsets it matched.
+  const combAnchor = frameOffset + bestPhase / frameRate;
+  let weightSum = 0;
+  let residualSum = 0;
+  for (const onset of onsets) {
+    const k = Math.round((onset.time - combAnchor) / fittedPeriod);
+    const residual = onset.time - (combAnchor + k * fittedPeriod);
+    if (Math.abs(residual) > fittedPeriod * 0.1) continue;
+    weightSum += onset.strength;
+    residualSum += onset.strength * residual;
+  }
+  anchor = weightSum > 0 ? combAnchor + residualSum / weightSum : combAnchor;
+
+  const firstBeat = anchor - Math.floor(anchor / fittedPeriod) * fittedPeriod;
+  return { anchor: firstBeat, period: fittedPeriod };
+};
+
+/**
+ * Follows the beat from `anchor` onward, nudging phase and period toward the
+ * onsets found near each predicted beat so slow drift and tempo changes are
+ * tracked instead of averaged away. Returns beat times in seconds.
+ */
+export const trackBeats = (
+  detection: OnsetDetectionResult,
+  anchor: number,
+  period: number,
+  durationSec: number
+): number[] => {
+  const { onsets } = detection;
+  const beats: number[] = [anchor];
+  let currentPeriod = period;
+  let last = anchor;
+  let cursor = 0;
+
+  while (last + currentPeriod < durationSec) {
+    const predicted = last + currentPeriod;
+    const window = currentPeriod * 0.12;
+    while (cursor < onsets.length && onsets[cursor].time < predicted - window) {
+      cursor += 1;
+    }
+    let bestScore = 0;
+    let bestTime: number | null = null;
+    for (let i = cursor; i < onsets.length && onsets[i].time <= predicted + window; i++) {
+      const distance = (onsets[i].time - predicted) / (window / 2);
+      const score = onsets[i].strength * Math.exp(-0.5 * distance * distance);
+      if (score > bestScore) {
+        bestScore = score;
+        bestTime = onsets[i].time;
+      }
+    }
+
+    const beat = bestTime === null ? predicted : predicted + 0.5 * (bestTime - predicted);
+    if (bestTime !== null) {
+      const observed = beat - last;
+      const nextPeriod = 0.9 * currentPeriod + 0.1 * observed;
+      currentPeriod = Math.min(period * 1.15, Math.max(period * 0.85, nextPeriod));
+    }
+    beats.push(beat);
+    last = beat;
+  }
+  return beats;
+};
+
+/**
+ * Picks which beat of the bar is the downbeat by comparing, on every candidate
+ * bar position, the average low-band attack plus how much bass rings on over
+ * the first half of the beat. Snares light up the low-band flux too, but only
+ * kicks and bass notes leave sustained energy there. Returns the index in
+ * `beats` of the first downbeat, in [0, beatsPerBar).
+ */
+export const estimateBarPhase = (
+  detection: OnsetDetectionResult,
+  beats: number[],
+  beatsPerBar: number
+): number => {
+  const { envelope, lowEnvelope, lowEnergy, frameRate, frameOffset } = detection;
+  if (beats.length < beatsPerBar * 2 || lowEnvelope.length === 0) return 0;
+
+  const sums = new Array<number>(beatsPerBar).fill(0);
+  const counts = new Array<number>(beatsPerBar).fill(0);
+  beats.forEach((beat, idx) => {
+    const center = Math.round((beat - frameOffset) * frameRate);
+    let peak = 0;
+    for (let frame = center - 2; frame <= center + 2; frame++) {
+      if (frame < 0 || frame >= lowEnvelope.length) continue;
+      // Full-band flux breaks ties when the low band is flat (e.g. no kick drum).
+      peak = Math.max(peak, lowEnvelope[frame] + 0.25 * envelope[frame]);
+    }
+    const next = idx + 1 < beats.length ? beats[idx + 1] : 2 * beat - beats[idx - 1];
+    const sustainEnd = Math.round((beat + (next - beat) / 2 - frameOffset) * frameRate);
+    let sustain = 0;
+    let sustainFrames = 0;
+    for (let frame = Math.max(0, center); frame < Math.min(sustainEnd, lowEnergy.length); frame++) {
+      sustain += lowEnergy[frame];
+      sustainFrames += 1;
+    }
+    sums[idx % beatsPerBar] += peak + (sustainFrames > 0 ? sustain / sustainFrames : 0);
+    counts[idx % beatsPerBar] += 1;
+  });
+
+  let bestPhase = 0;
+  let bestMean = -1;
+  for (let phase = 0; phase < beatsPerBar; phase++) {
+    const mean = counts[phase] > 0 ? sums[phase] / counts[phase] : 0;
+    if (mean > bestMean) {
+      bestMean = mean;
+      bestPhase = phase;
+    }
+  }
+  return bestPhase;
+};
@@ -0,0 +1,17 @@
+/**
+ * Small seeded PRNG (mulberry32): the same seed always yields the same
+ * sequence, so a randomized edit can be rebuilt exactly. Returns floats in [0, 1).
+ */
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Fresh 32-bit seed for a new variation. */
+export const createRandomSeed = () => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,93 @@
+import { runFfmpeg } from './ffmpegBridge';
+
+// ffmpeg scene score (0..1) above which a frame starts a new shot.
+export const DEFAULT_SCENE_THRESHOLD = 0.3;
+// Frames are scored at this width; enough to see cuts, much faster to decode.
+const ANALYSIS_WIDTH = 320;
+// Cuts closer than this to the previous one are flashes, not new shots.
+const MIN_SHOT_MS = 250;
+
+export type SceneDetectRequest = {
+  jobId: string;
+  inputPath: string;
+  durationSec?: number;
+  threshold?: number;
+};
+
+/**
+ * Arguments for a decode-only ffmpeg pass that keeps frames whose scene score
+ * exceeds the threshold and prints their metadata to stdout.
+ */
+export const buildSceneDetectArgs = (inputPath: string, threshold = DEFAULT_SCENE_THRESHOLD): string[] => [
+  '-hide_banner',
+  '-loglevel',
+  'info',
+  '-i',
+  inputPath,
+  '-an',
+  '-sn',
+  '-dn',
+  '-vf',
+  `scale=${ANALYSIS_WIDTH}:-2,select='gt(scene,${threshold})',metadata=print:file=-`,
+  '-f',
+  'null',
+  '-',
+];
+
+/**
+ * Reads the `pts_time:` of every selected frame from metadata=print output and
+ * returns shot starts in ms, always including 0 for the first shot.
+ */
+export const parseSceneOutput = (output: string): number[] => {
+  const starts = [0];
+  const pattern = /pts_time:\s*(-?\d+(?:\.\d+)?)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(output)) !== null) {
+    const timeMs = Math.round(Number(match[1]) * 1000);
+    if (!Number.isFinite(timeMs) || timeMs <= 0) continue;
+    if (timeMs - starts[starts.length - 1] < MIN_SHOT_MS) continue;
+    starts.push(timeMs);
+  }
+  return starts;
+};
+
+/**
+ * Runs scene detection on a local video file through the ffmpeg IPC.
+ * Progress arrives on the regular ffmpeg progress channel under the job id.
+ */
+export const detectShotStarts = async (request: SceneDetectRequest): Promise<number[]> => {
+  const result = await runFfmpeg({
+    jobId: request.jobId,
+    args: buildSceneDetectArgs(request.inputPath, request.threshold),
+    durationSec: request.durationSec,
+    captureOutput: true,
+  });
+  if (result.exitCode !== 0 || result.signal) {
+    throw new Error(`Scene detection failed (exit ${result.exitCode ?? result.signal}).`);
+  }
+  return parseSceneOutput(result.output ?? '');
+};
+
+/**
+ * Shot start closest to timeMs that is no later than maxMs, or null when the
+ * clip has no usable shot starts.
+ */
+export const findNearestShotStart = (shotStarts: number[] | undefined, timeMs: number, maxMs = Infinity) => {
+  if (!shotStarts || shotStarts.length === 0) return null;
+  let best: number | null = null;
+  shotStarts.forEach((start) => {
+    if (start > maxMs) return;
+    if (best === null || Math.abs(start - timeMs) < Math.abs(best - timeMs)) best = start;
+  });
+  return best;
+};
+
+/** First shot start after (or before, for step -1) timeMs, or null at the ends. */
+export const findAdjacentShotStart = (shotStarts: number[] | undefined, timeMs: number, step: 1 | -1) => {
+  if (!shotStarts || shotStarts.length === 0) return null;
+  if (step > 0) return shotStarts.find((start) => start > timeMs + 1) ?? null;
+  for (let idx = shotStarts.length - 1; idx >= 0; idx--) {
+    if (shotStarts[idx] < timeMs - 1) return shotStarts[idx];
+  }
+  return null;
+};
@@ -0,0 +1,283 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ClipSegment, EditMode, SourceClip, TimelineTrack } from '../types';
+
+// Trims stop here so a segment never collapses to nothing.
+export const MIN_SEGMENT_MS = 100;
+
+export type SegmentDragMode = 'move' | 'trim-start' | 'trim-end';
+
+export type SegmentTiming = Pick<ClipSegment, 'timelineStart' | 'duration' | 'sourceStartOffset'>;
+
+/** Free space around a segment: end of the previous segment and start of the next one on its track. */
+export const getNeighborBounds = (track: TimelineTrack, segmentId: string) => {
+  const target = track.segments.find((segment) => segment.id === segmentId);
+  let prevEnd = 0;
+  let nextStart = Infinity;
+  if (!target) return { prevEnd, nextStart };
+  track.segments.forEach((segment) => {
+    if (segment.id === segmentId) return;
+    const end = segment.timelineStart + segment.duration;
+    if (segment.timelineStart < target.timelineStart) {
+      prevEnd = Math.max(prevEnd, end);
+    } else {
+      nextStart = Math.min(nextStart, segment.timelineStart);
+    }
+  });
+  return { prevEnd, nextStart };
+};
+
+/**
+ * Timing after dragging a segment by deltaMs. Moves stop against the
+ * neighbors; trims also stop at the start and end of the source clip. The
+ * remaining frames stay put: a left trim moves sourceStartOffset with the
+ * edge, or for reversed segments, where the last frame is the earliest, a
+ * right trim does.
+ */
+export const applySegmentDrag = (
+  segment: ClipSegment,
+  mode: SegmentDragMode,
+  deltaMs: number,
+  bounds: { prevEnd: number; nextStart: number },
+  clip?: SourceClip
+): SegmentTiming => {
+  const rate = segment.playbackRate ?? 1;
+  const end = segment.timelineStart + segment.duration;
+  const clipDuration = clip?.duration ?? Infinity;
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+  if (mode === 'move') {
+    // Widened to the current position so segments that already overlap don't jump.
+    const minStart = Math.min(bounds.prevEnd, segment.timelineStart);
+    const maxStart = Math.max(segment.timelineStart, bounds.nextStart - segment.duration);
+    return {
+      timelineStart: clamp(segment.timelineStart + deltaMs, minStart, maxStart),
+      duration: segment.duration,
+      sourceStartOffset: segment.sourceStartOffset,
+    };
+  }
+
+  if (mode === 'trim-start') {
+    const sourceLimit = segment.reverse
+      ? end - (clipDuration - segment.sourceStartOffset) / rate
+      : segment.timelineStart - segment.sourceStartOffset / rate;
+    const minStart = Math.max(bounds.prevEnd, sourceLimit);
+    const maxStart = Math.max(minStart, end - MIN_SEGMENT_MS);
+    const timelineStart = clamp(segment.timelineStart + deltaMs, Math.min(minStart, segment.timelineStart), maxStart);
+    return {
+      timelineStart,
+      duration: end - timelineStart,
+      sourceStartOffset: segment.reverse
+        ? segment.sourceStartOffset
+        : Math.max(0, segment.sourceStartOffset + (timelineStart - segment.timelineStart) * rate),
+    };
+  }
+
+  const sourceLimit = segment.reverse
+    ? end + segment.sourceStartOffset / rate
+    : segment.timelineStart + (clipDuration - segment.sourceStartOffset) / rate;
+  const maxEnd = Math.max(end, Math.min(bounds.nextStart, sourceLimit));
+  const nextEnd = clamp(end + deltaMs, segment.timelineStart + MIN_SEGMENT_MS, maxEnd);
+  return {
+    timelineStart: segment.timelineStart,
+    duration: nextEnd - segment.timelineStart,
+    sourceStartOffset: segment.reverse
+      ? Math.max(0, segment.sourceStartOffset - (nextEnd - end) * rate)
+      : segment.sourceStartOffset,
+  };
+};
+
+/**
+ * Splits a segment at a timeline time into two segments that together show
+ * the same frames: the second continues where the first stops in the source,
+ * or, for reversed segments, the first takes the later source frames. A
+ * segment that plays slower than requested because its clip runs out keeps
+ * that slower rate in both halves. Returns null when timeMs is too close to
+ * an edge.
+ */
+export const splitSegment = (
+  segment: ClipSegment,
+  timeMs: number,
+  clip?: SourceClip
+): [ClipSegment, ClipSegment] | null => {
+  const splitMs = timeMs - segment.timelineStart;
+  if (splitMs < MIN_SEGMENT_MS || segment.duration - splitMs < MIN_SEGMENT_MS) return null;
+  const requestedRate = Number.isFinite(segment.playbackRate) ? Math.max(0.05, segment.playbackRate!) : 1;
+  const available = (clip?.duration ?? Infinity) - segment.sourceStartOffset;
+  const rate = available > 0 ? Math.min(requestedRate, available / segment.duration) : requestedRate;
+  const rateUpdate = rate < requestedRate ? { playbackRate: rate } : {};
+  const firstSourceOffset = segment.reverse
+    ? segment.sourceStartOffset + (segment.duration - splitMs) * rate
+    : segment.sourceStartOffset;
+  const secondSourceOffset = segment.reverse
+    ? segment.sourceStartOffset
+    : segment.sourceStartOffset + splitMs * rate;
+  const first: ClipSegment = {
+    ...segment,
+    ...rateUpdate,
+    duration: splitMs,
+    sourceStartOffset: firstSourceOffset,
+    fadeOut: segment.fadeOut ? { ...segment.fadeOut, enabled: false } : undefined,
+  };
+  const second: ClipSegment = {
+    ...segment,
+    ...rateUpdate,
+    id: uuidv4(),
+    timelineStart: timeMs,
+    duration: segment.duration - splitMs,
+    sourceStartOffset: secondSourceOffset,
+    fadeIn: segment.fadeIn ? { ...segment.fadeIn, enabled: false } : undefined,
+  };
+  return [first, second];
+};
+
+/** Splits a segment at every given timeline time that falls inside it. */
+export const splitSegmentAtTimes = (segment: ClipSegment, timesMs: number[], clip?: SourceClip): ClipSegment[] => {
+  const pieces = [segment];
+  [...timesMs].sort((a, b) => a - b).forEach((timeMs) => {
+    const split = splitSegment(pieces[pieces.length - 1], timeMs, clip);
+    if (split) pieces.splice(pieces.length - 1, 1, ...split);
+  });
+  return pieces;
+};
+
+// Segments closer than this count as touching for roll and slide edits.
+const ADJACENT_MS = 1;
+
+/** How far the dragged edge of a segment actually moves for a requested delta. */
+const getEdgeDelta = (
+  segment: ClipSegment,
+  mode: 'trim-start' | 'trim-end',
+  deltaMs: number,
+  bounds: { prevEnd: number; nextStart: number },
+  clip?: SourceClip
+) => {
+  const timing = applySegmentDrag(segment, mode, deltaMs, bounds, clip);
+  return mode === 'trim-start'
+    ? timing.timelineStart - segment.timelineStart
+    : timing.timelineStart + timing.duration - (segment.timelineStart + segment.duration);
+};
+
+/**
+ * Segments a ripple edit of ordered[index] carries along: the later ones up
+ * to the first locked segment, which stays put. maxShift is how far they can
+ * move right before running into it.
+ */
+export const getRippleRange = (ordered: ClipSegment[], index: number) => {
+  const lockedIndex = ordered.findIndex((segment, idx) => idx > index && segment.locked);
+  const rippled = ordered.slice(index + 1, lockedIndex === -1 ? undefined : lockedIndex);
+  if (lockedIndex === -1) return { ids: new Set(rippled.map((segment) => segment.id)), maxShift: Infinity };
+  const lastEnd = Math.max(...[ordered[index], ...rippled].map((segment) => segment.timelineStart + segment.duration));
+  return {
+    ids: new Set(rippled.map((segment) => segment.id)),
+    maxShift: Math.max(0, ordered[lockedIndex].timelineStart - lastEnd),
+  };
+};
+
+/**
+ * Segments of a track after dragging one of them under an edit mode:
+ * - standard: move and trim within the free space around the segment.
+ * - ripple: later segments up to the first locked one follow the segment's
+ *   end; a left trim keeps the start in place and changes which frames the
+ *   segment begins with.
+ * - roll: an edge drag moves the cut with the touching neighbor, keeping the
+ *   total length.
+ * - slip: a body drag changes which frames play without moving the segment.
+ * - slide: a body drag moves the segment while touching neighbors grow or
+ *   shrink to keep the cuts closed.
+ * Combinations a mode doesn't define behave like standard.
+ */
+export const applyTrackEdit = (
+  track: TimelineTrack,
+  segmentId: string,
+  dragMode: SegmentDragMode,
+  editMode: EditMode,
+  deltaMs: number,
+  clips: SourceClip[]
+): ClipSegment[] => {
+  const ordered = [...track.segments].sort((a, b) => a.timelineStart - b.timelineStart);
+  const index = ordered.findIndex((segment) => segment.id === segmentId);
+  if (index === -1) return track.segments;
+  const segment = ordered[index];
+  const clipById = new Map(clips.map((clip) => [clip.id, clip]));
+  const clipOf = (target: ClipSegment) => clipById.get(target.sourceClipId);
+  const bounds = getNeighborBounds(track, segmentId);
+  const end = segment.timelineStart + segment.duration;
+  const prev = ordered[index - 1];
+  const next = ordered[index + 1];
+  // Locked neighbors are never resized.
+  const prevTouches = Boolean(prev) && !prev.locked && Math.abs(prev.timelineStart + prev.duration - segment.timelineStart) <= ADJACENT_MS;
+  const nextTouches = Boolean(next) && !next.locked && Math.abs(next.timelineStart - end) <= ADJACENT_MS;
+  const ripple = getRippleRange(ordered, index);
+  const update = (changes: Map<string, Partial<ClipSegment>>, shiftLater = 0) =>
+    track.segments.map((item) => {
+      const shifted = ripple.ids.has(item.id) && shiftLater !== 0
+        ? { ...item, timelineStart: item.timelineStart + shiftLater }
+        : item;
+      const change = changes.get(item.id);
+      return change ? { ...shifted, ...change } : shifted;
+    });
+  const unbounded = { prevEnd: -Infinity, nextStart: Infinity };
+
+  if (editMode === 'slip' && dragMode === 'move') {
+    const rate = segment.playbackRate ?? 1;
+    const clipDuration = clipOf(segment)?.duration ?? Infinity;
+    const maxOffset = Math.max(segment.sourceStartOffset, clipDuration - segment.duration * rate);
+    // Dragging right pulls earlier frames into view, like sliding the clip under a window.
+    const sourceStartOffset = Math.min(maxOffset, Math.max(0, segment.sourceStartOffset - deltaMs * rate));
+    return update(new Map([[segment.id, { sourceStartOffset }]]));
+  }
+
+  if (editMode === 'ripple') {
+    if (dragMode === 'move') {
+      const timelineStart = Math.min(
+        segment.timelineStart + ripple.maxShift,
+        Math.max(Math.min(bounds.prevEnd, segment.timelineStart), segment.timelineStart + deltaMs)
+      );
+      return update(new Map([[segment.id, { timelineStart }]]), timelineStart - segment.timelineStart);
+    }
+    const timing = applySegmentDrag(
+      segment,
+      dragMode,
+      deltaMs,
+      dragMode === 'trim-start'
+        ? { prevEnd: segment.timelineStart - ripple.maxShift, nextStart: bounds.nextStart }
+        : { prevEnd: bounds.prevEnd, nextStart: end + ripple.maxShift },
+      clipOf(segment)
+    );
+    const change = { ...timing, timelineStart: segment.timelineStart };
+    return update(new Map([[segment.id, change]]), timing.duration - segment.duration);
+  }
+
+  if (editMode === 'roll' && dragMode !== 'move') {
+    const left = dragMode === 'trim-end' ? segment : prevTouches ? prev : null;
+    const right = dragMode === 'trim-start' ? segment : nextTouches ? next : null;
+    if (left && right) {
+      let delta = getEdgeDelta(left, 'trim-end', deltaMs, unbounded, clipOf(left));
+      delta = getEdgeDelta(right, 'trim-start', delta, unbounded, clipOf(right));
+      return update(new Map([
+        [left.id, applySegmentDrag(left, 'trim-end', delta, unbounded, clipOf(left))],
+        [right.id, applySegmentDrag(right, 'trim-start', delta, unbounded, clipOf(right))],
+      ]));
+    }
+  }
+
+  if (editMode === 'slide' && dragMode === 'move' && (prevTouches || nextTouches)) {
+    // Each limit is a range around 0, so clamping by one after the other satisfies both.
+    let delta = deltaMs;
+    delta = prevTouches
+      ? getEdgeDelta(prev, 'trim-end', delta, unbounded, clipOf(prev))
+      : Math.max(delta, Math.min(0, bounds.prevEnd - segment.timelineStart));
+    delta = nextTouches
+      ? getEdgeDelta(next, 'trim-start', delta, unbounded, clipOf(next))
+      : Math.min(delta, Math.max(0, bounds.nextStart - end));
+    const changes = new Map<string, Partial<ClipSegment>>([
+      [segment.id, { timelineStart: segment.timelineStart + delta }],
+    ]);
+    if (prevTouches) changes.set(prev.id, applySegmentDrag(prev, 'trim-end', delta, unbounded, clipOf(prev)));
+    if (nextTouches) changes.set(next.id, applySegmentDrag(next, 'trim-start', delta, unbounded, clipOf(next)));
+    return update(changes);
+  }
+
+  const timing = applySegmentDrag(segment, dragMode, deltaMs, bounds, clipOf(segment));
+  return update(new Map([[segment.id, timing]]));
+};
@@ -0,0 +1,71 @@
+import { BeatGrid, SnapResolution, TimelineTrack } from '../types';
+import { isDownbeat } from './audioUtils';
+
+// Pointer distance within which a time is pulled onto a snap target.
+export const SNAP_DISTANCE_PX = 10;
+
+const SUBDIVISIONS: Record<SnapResolution, number> = {
+  bar: 1,
+  beat: 1,
+  '1/2': 2,
+  '1/4': 4,
+  off: 0,
+};
+
+/** Grid times (ms) for a resolution: downbeats for bars, beats, or even splits of each beat. */
+export const getGridSnapTimes = (grid: BeatGrid, resolution: SnapResolution, beatsPerBar: number): number[] => {
+  const beats = grid.beats;
+  if (resolution === 'off' || beats.length === 0) return [];
+  if (resolution === 'bar') {
+    return beats.filter((_, idx) => isDownbeat(grid, idx, beatsPerBar)).map((beat) => beat * 1000);
+  }
+  const parts = SUBDIVISIONS[resolution];
+  const times: number[] = [];
+  beats.forEach((beat, idx) => {
+    // The last beat reuses the spacing of the one before it.
+    const next = beats[idx + 1] ?? (idx > 0 ? beat + (beat - beats[idx - 1]) : beat);
+    for (let part = 0; part < parts; part++) {
+      times.push((beat + ((next - beat) * part) / parts) * 1000);
+    }
+  });
+  return times;
+};
+
+/** Start and end of every segment, optionally leaving one out (the one being dragged). */
+export const getSegmentEdgeTimes = (tracks: TimelineTrack[], excludeId?: string) =>
+  tracks.flatMap((track) => track.segments
+    .filter((segment) => segment.id !== excludeId)
+    .flatMap((segment) => [segment.timelineStart, segment.timelineStart + segment.duration]));
+
+/** The target closest to timeMs if it is within thresholdMs, otherwise timeMs itself. */
+export const snapTime = (timeMs: number, targets: number[], thresholdMs: number) => {
+  let best = timeMs;
+  let bestDistance = thresholdMs;
+  targets.forEach((target) => {
+    const distance = Math.abs(target - timeMs);
+    if (distance <= bestDistance) {
+      best = target;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+/**
+ * Adjusts a drag delta so whichever of the moving edges lands closest to a
+ * target snaps onto it; the delta is unchanged when none is in range.
+ */
+export const snapDelta = (edgesMs: number[], deltaMs: number, targets: number[], thresholdMs: number) => {
+  let best = deltaMs;
+  let bestDistance = Infinity;
+  edgesMs.forEach((edge) => {
+    const moved = edge + deltaMs;
+    const snapped = snapTime(moved, targets, thresholdMs);
+    const distance = Math.abs(snapped - moved);
+    if (snapped !== moved && distance < bestDistance) {
+      best = deltaMs + snapped - moved;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
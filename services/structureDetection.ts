@@ -0,0 +1,234 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SongSection } from '../types';
+import { OnsetDetectionResult, SPECTRUM_BAND_COUNT } from './onsetDetection';
+
+// Section boundaries only fall on phrase starts, counted from the first downbeat.
+const PHRASE_BARS = 4;
+// Bars between two detected boundaries (the song edges only need one phrase).
+const MIN_SECTION_BARS = 8;
+// Bars averaged on each side of a candidate boundary when comparing them.
+const NOVELTY_WINDOW_BARS = 4;
+// Loudness carries more weight than any single spectral band.
+const LOUDNESS_WEIGHT = 3;
+// Shortest section a resize may leave behind.
+const MIN_SECTION_SEC = 0.5;
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const std = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - avg) ** 2)));
+};
+
+/**
+ * Per-bar loudness, low-band energy and a feature vector (log band spectrum,
+ * onset density and loudness, each z-scored across the song).
+ */
+const computeBarFeatures = (detection: OnsetDetectionResult, barEdges: number[]) => {
+  const { spectrum, envelope, lowEnergy, frameRate, frameOffset } = detection;
+  const frameCount = envelope.length;
+  const bars = barEdges.slice(0, -1).map((start, idx) => {
+    const from = Math.max(0, Math.ceil((start - frameOffset) * frameRate));
+    const to = Math.min(frameCount, Math.max(from + 1, Math.floor((barEdges[idx + 1] - frameOffset) * frameRate)));
+    const bands = new Array(SPECTRUM_BAND_COUNT).fill(0);
+    let flux = 0;
+    let low = 0;
+    for (let frame = from; frame < to; frame++) {
+      for (let band = 0; band < SPECTRUM_BAND_COUNT; band++) {
+        bands[band] += spectrum[frame * SPECTRUM_BAND_COUNT + band] ?? 0;
+      }
+      flux += envelope[frame] ?? 0;
+      low += lowEnergy[frame] ?? 0;
+    }
+    const frames = Math.max(1, to - from);
+    const meanBands = bands.map(value => value / frames);
+    return {
+      loudness: meanBands.reduce((sum, value) => sum + value, 0),
+      low: low / frames,
+      raw: [...meanBands.map(value => Math.log1p(100 * value)), flux / frames],
+    };
+  });
+
+  const dims = SPECTRUM_BAND_COUNT + 2;
+  const columns = Array.from({ length: dims }, (_, dim) =>
+    bars.map(bar => (dim < dims - 1 ? bar.raw[dim] : Math.log1p(100 * bar.loudness)))
+  );
+  const stats = columns.map(column => ({ avg: mean(column), dev: std(column) || 1 }));
+  const features = bars.map((_, barIdx) =>
+    columns.map((column, dim) => {
+      const z = (column[barIdx] - stats[dim].avg) / stats[dim].dev;
+      return dim === dims - 1 ? z * LOUDNESS_WEIGHT : z;
+    })
+  );
+  return { bars, features };
+};
+
+/** Distance between the average feature vectors just before and just after a bar. */
+const noveltyAt = (features: number[][], barIdx: number) => {
+  const before = features.slice(Math.max(0, barIdx - NOVELTY_WINDOW_BARS), barIdx);
+  const after = features.slice(barIdx, barIdx + NOVELTY_WINDOW_BARS);
+  if (before.length === 0 || after.length === 0) return 0;
+  let sum = 0;
+  for (let dim = 0; dim < features[0].length; dim++) {
+    const diff = mean(after.map(f => f[dim])) - mean(before.map(f => f[dim]));
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+};
+
+/**
+ * Names sections from their (log) loudness relative to the rest of the song:
+ * quiet edges are intro/outro, quiet middles or dips between louder parts are
+ * breaks, the loudest parts are choruses, or drops when they hit hard after a
+ * quiet stretch with heavy bass.
+ */
+const labelSections = (energies: number[], lows: number[]) => {
+  const min = Math.min(...energies);
+  const range = Math.max(...energies) - min;
+  const lowMin = Math.min(...lows);
+  const lowRange = Math.max(...lows) - lowMin;
+  const rel = energies.map(energy => (range > 0 ? (energy - min) / range : 0.5));
+  const lowRel = lows.map(low => (lowRange > 0 ? (low - lowMin) / lowRange : 0.5));
+  return rel.map((value, idx) => {
+    const isFirst = idx === 0;
+    const isLast = idx === rel.length - 1;
+    if (value >= 0.7) {
+      return idx > 0 && rel[idx - 1] < 0.4 && lowRel[idx] >= 0.7 ? 'Drop' : 'Chorus';
+    }
+    if (isFirst) return 'Intro';
+    if (isLast) return 'Outro';
+    const isDip = value < Math.min(rel[idx - 1], rel[idx + 1]) - 0.25;
+    return value < 0.3 || isDip ? 'Break' : 'Verse';
+  });
+};
+
+/**
+ * Splits the track into sections at phrase boundaries where the sound changes
+ * most (energy and spectral novelty between the bars on either side), then
+ * names them. `downbeats` are bar starts from the beat grid. Returns an empty
+ * list when the track is too short to have a structure.
+ */
+export const detectSongSections = (
+  detection: OnsetDetectionResult,
+  downbeats: number[],
+  durationSec: number
+): SongSection[] => {
+  const barEdges = downbeats.filter(time => time > 0 && time < durationSec);
+  // Pickup beats belong to the first bar.
+  barEdges.unshift(0);
+  barEdges.push(durationSec);
+  const barCount = barEdges.length - 1;
+  if (barCount < MIN_SECTION_BARS * 2 || !detection.spectrum || detection.spectrum.length === 0) {
+    return [];
+  }
+
+  const { bars, features } = computeBarFeatures(detection, barEdges);
+  // Bar 1 is the first full bar when there's a pickup.
+  const firstBar = downbeats.length > 0 && downbeats[0] > 0 ? 1 : 0;
+  const candidates: { bar: number; novelty: number }[] = [];
+  for (let bar = firstBar + PHRASE_BARS; bar <= barCount - PHRASE_BARS; bar += PHRASE_BARS) {
+    candidates.push({ bar, novelty: noveltyAt(features, bar) });
+  }
+  // Within a section novelty stays near zero, so the mean separates the real changes.
+  const threshold = mean(candidates.map(candidate => candidate.novelty));
+
+  const boundaries: number[] = [];
+  [...candidates]
+    .sort((a, b) => b.novelty - a.novelty)
+    .forEach(candidate => {
+      if (candidate.novelty < threshold) return;
+      if (boundaries.some(bar => Math.abs(bar - candidate.bar) < MIN_SECTION_BARS)) return;
+      boundaries.push(candidate.bar);
+    });
+  const edges = [0, ...boundaries.sort((a, b) => a - b), barCount];
+
+  const spans = edges.slice(0, -1).map((start, idx) => bars.slice(start, edges[idx + 1]));
+  const names = labelSections(
+    spans.map(span => Math.log(mean(span.map(bar => bar.loudness)) + 1e-6)),
+    spans.map(span => mean(span.map(bar => bar.low)))
+  );
+  return names.map((name, idx) => ({
+    id: uuidv4(),
+    name,
+    startSec: barEdges[edges[idx]],
+    endSec: barEdges[edges[idx + 1]],
+  }));
+};
+
+/**
+ * Moves one edge of a section to the nearest beat (when there are beats). A
+ * neighbour that shared the edge moves with it; neither section may shrink
+ * below MIN_SECTION_SEC.
+ */
+export const resizeSongSection = (
+  sections: SongSection[],
+  id: string,
+  edge: 'start' | 'end',
+  timeSec: number,
+  beats: number[],
+  durationSec: number
+): SongSection[] => {
+  const sorted = [...sections].sort((a, b) => a.startSec - b.startSec);
+  const idx = sorted.findIndex(section => section.id === id);
+  if (idx === -1) return sections;
+  const section = sorted[idx];
+
+  let target = timeSec;
+  if (beats.length > 0) {
+    target = beats.reduce((best, beat) => (Math.abs(beat - timeSec) < Math.abs(best - timeSec) ? beat : best), beats[0]);
+  }
+
+  const neighbour = edge === 'start' ? sorted[idx - 1] : sorted[idx + 1];
+  const sharedEdge = edge === 'start'
+    ? neighbour && Math.abs(neighbour.endSec - section.startSec) < 1e-6
+    : neighbour && Math.abs(neighbour.startSec - section.endSec) < 1e-6;
+  const lower = edge === 'start'
+    ? (neighbour ? (sharedEdge ? neighbour.startSec : neighbour.endSec) : 0) + (sharedEdge ? MIN_SECTION_SEC : 0)
+    : section.startSec + MIN_SECTION_SEC;
+  const upper = edge === 'start'
+    ? section.endSec - MIN_SECTION_SEC
+    : (neighbour ? (sharedEdge ? neighbour.endSec : neighbour.startSec) : durationSec) - (sharedEdge ? MIN_SECTION_SEC : 0);
+  if (upper < lower) return sections;
+  target = Math.min(upper, Math.max(lower, target));
+
+  return sections.map(item => {
+    if (item.id === section.id) {
+      return edge === 'start' ? { ...item, startSec: target } : { ...item, endSec: target };
+    }
+    if (sharedEdge && item.id === neighbour.id) {
+      return edge === 'start' ? { ...item, endSec: target } : { ...item, startSec: target };
+    }
+    return item;
+  });
+};
+
+// Sections in a project file may come without an id or a cut length.
+type SavedSongSection = Partial<SongSection> & Pick<SongSection, 'name' | 'startSec' | 'endSec'>;
+
+const isSavedSongSection = (value: unknown): value is SavedSongSection => {
+  const item = value as Partial<SongSection> | null;
+  return typeof item === 'object' &&
+    item !== null &&
+    typeof item.name === 'string' &&
+    Number.isFinite(item.startSec) &&
+    Number.isFinite(item.endSec) &&
+    item.endSec > item.startSec;
+};
+
+/**
+ * Validates sections read from a project file; drops malformed entries.
+ */
+export const normalizeSongSections = (value: unknown): SongSection[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isSavedSongSection)
+    .map((item) => ({
+      id: typeof item.id === 'string' ? item.id : uuidv4(),
+      name: item.name,
+      startSec: item.startSec,
+      endSec: item.endSec,
+      ...(Number.isFinite(item.cutBars) && item.cutBars > 0 ? { cutBars: item.cutBars } : {}),
+    }))
+    .sort((a, b) => a.startSec - b.startSec);
+};
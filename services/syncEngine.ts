@@ -1,35 +1,590 @@
-import { BeatGrid, ClipSegment, SourceClip } from '../types';
-import { BEATS_PER_BAR } from '../constants';
+import {
+    BeatGrid,
+    ClipSegment,
+    CutLengthRange,
+    DynamicCutOptions,
+    Onset,
+    OnsetCutOptions,
+    ShortClipMode,
+    SourceClip,
+    SourceOffsetMode,
+    SyncSelection,
+    SyncStrategyId
+} from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { createSeededRandom } from './random';
+import { findNearestShotStart } from './sceneDetection';
+import { getVisualIntensity } from './motionAnalysis';
+import { parseClipPattern } from './clipPattern';
 
+export interface SyncPickState {
+    /** Milliseconds already placed on the timeline, by clip id. */
+    usage: Map<string, number>;
+    previousClipId: string | null;
+    /** Music energy (0..1) over the segment being filled, when known. */
+    energy: number | null;
+    /** Source time the segment consumes. */
+    needMs: number;
+}
+
+export interface SyncStrategy {
+    id: SyncStrategyId;
+    label: string;
+    /**
+     * Builds a picker for one auto-sync run. `clips` are in natural name order
+     * and `random` is seeded, so the same inputs always give the same edit.
+     */
+    create: (clips: SourceClip[], random: () => number) => (state: SyncPickState) => SourceClip;
+}
+
+/** Relative pick weight set in the Media Pool; 1 when unset. */
+const getClipWeight = (clip: SourceClip) =>
+    Number.isFinite(clip.weight) && clip.weight! > 0 ? clip.weight! : 1;
+
+const shuffleInPlace = <T>(items: T[], random: () => number) => {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+};
+
+const sequentialStrategy: SyncStrategy = {
+    id: 'sequential',
+    label: 'Sequential',
+    create: (clips) => {
+        let index = 0;
+        return () => clips[index++ % clips.length];
+    },
+};
+
+// Deals every clip once per round in shuffled order; a new round never opens
+// with the clip that closed the last one. A weight's whole part is the number
+// of cards and its fraction the chance of one more, so 0.5 sits out about
+// every other round.
+const shuffleStrategy: SyncStrategy = {
+    id: 'shuffle',
+    label: 'Shuffle',
+    create: (clips, random) => {
+        let deck: SourceClip[] = [];
+        return ({ previousClipId }) => {
+            if (deck.length === 0) {
+                const dealt = clips.flatMap((clip) => {
+                    const weight = getClipWeight(clip);
+                    const cards = Math.floor(weight) + (random() < weight % 1 ? 1 : 0);
+                    return Array(cards).fill(clip);
+                });
+                // Every clip sat out this round; deal them once each instead.
+                deck = shuffleInPlace(dealt.length > 0 ? dealt : [...clips], random);
+                if (deck.length > 1 && deck[deck.length - 1].id === previousClipId) {
+                    [deck[0], deck[deck.length - 1]] = [deck[deck.length - 1], deck[0]];
+                }
+            }
+            return deck.pop()!;
+        };
+    },
+};
+
+// Longer source clips have more material to show, so they come up more often;
+// clip weights scale that further.
+const weightedStrategy: SyncStrategy = {
+    id: 'weighted',
+    label: 'Weighted random',
+    create: (clips, random) => {
+        const weights = clips.map((clip) => Math.max(1, clip.duration) * getClipWeight(clip));
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        return () => {
+            let target = random() * total;
+            for (let i = 0; i < clips.length; i++) {
+                target -= weights[i];
+                if (target < 0) return clips[i];
+            }
+            return clips[clips.length - 1];
+        };
+    },
+};
+
+// Clip with the least screen time so far (relative to its weight, so a clip
+// weighted 2 gets twice the time); ties are broken at random, avoiding the
+// clip that was just used.
+const leastUsedStrategy: SyncStrategy = {
+    id: 'leastUsed',
+    label: 'Least used first',
+    create: (clips, random) => ({ usage, previousClipId }) => {
+        const weightedUsage = (clip: SourceClip) => (usage.get(clip.id) ?? 0) / getClipWeight(clip);
+        const least = Math.min(...clips.map(weightedUsage));
+        const tied = clips.filter((clip) => weightedUsage(clip) === least);
+        const fresh = tied.filter((clip) => clip.id !== previousClipId);
+        const candidates = fresh.length > 0 ? fresh : tied;
+        return candidates[Math.floor(random() * candidates.length)];
+    },
+};
+
+type IntensityProfile = { intervalSec: number; values: number[] };
+
+/**
+ * Stretch of needMs whose visual intensity is closest to target, preferring
+ * stretches outside `used`. Offsets step by the profile interval.
+ */
+const findIntensityWindow = (
+    profile: IntensityProfile,
+    needMs: number,
+    maxOffset: number,
+    target: number,
+    used: [number, number][] = []
+) => {
+    const stepMs = profile.intervalSec * 1000;
+    const windowSize = Math.max(1, Math.ceil(needMs / stepMs));
+    let best: { offset: number; error: number; overlaps: boolean } | null = null;
+    for (let start = 0; start * stepMs <= maxOffset; start++) {
+        const window = profile.values.slice(start, start + windowSize);
+        if (window.length === 0) break;
+        const error = Math.abs(window.reduce((sum, value) => sum + value, 0) / window.length - target);
+        const offset = start * stepMs;
+        const overlaps = used.some(([from, to]) => offset < to && offset + needMs > from);
+        if (!best || (best.overlaps && !overlaps) || (best.overlaps === overlaps && error < best.error)) {
+            best = { offset, error, overlaps };
+        }
+    }
+    return best;
+};
+
+// Busy footage on loud, dense music and calm footage on breakdowns: the clip
+// with an excerpt closest to the music's energy wins, with screen time and an
+// immediate repeat counting against it. Clips without a motion profile count
+// as medium intensity; without music energy this falls back to least used.
+const energyMatchStrategy: SyncStrategy = {
+    id: 'energy',
+    label: 'Match motion to energy',
+    create: (clips, random) => {
+        const intensity = getVisualIntensity(clips);
+        const fallback = leastUsedStrategy.create(clips, random);
+        return (state) => {
+            const { usage, previousClipId, energy, needMs } = state;
+            if (energy === null) return fallback(state);
+            const totalUsage = clips.reduce((sum, clip) => sum + (usage.get(clip.id) ?? 0), 0);
+            let best: { clip: SourceClip; score: number } | null = null;
+            clips.forEach((clip) => {
+                const profile = intensity.get(clip.id);
+                const maxOffset = Math.max(0, clip.duration - needMs);
+                const error = profile
+                    ? findIntensityWindow(profile, needMs, maxOffset, energy)?.error ?? 1
+                    : Math.abs(0.5 - energy);
+                const share = totalUsage > 0 ? (usage.get(clip.id) ?? 0) / totalUsage / getClipWeight(clip) : 0;
+                const repeat = clips.length > 1 && clip.id === previousClipId ? 0.15 : 0;
+                // A little noise so equally good clips take turns.
+                const score = error + share * 0.2 + repeat + random() * 0.01;
+                if (!best || score < best.score) best = { clip, score };
+            });
+            return best ? best.clip : clips[0];
+        };
+    },
+};
+
+export const SYNC_STRATEGIES: Record<SyncStrategyId, SyncStrategy> = {
+    sequential: sequentialStrategy,
+    shuffle: shuffleStrategy,
+    weighted: weightedStrategy,
+    leastUsed: leastUsedStrategy,
+    energy: energyMatchStrategy,
+};
+
+export const DEFAULT_SYNC_SELECTION: SyncSelection = { strategy: 'sequential', seed: 1 };
+
+const MIN_CUT_BARS = 0.25;
+const MAX_CUT_BARS = 32;
+
+const sanitizeBars = (bars: number, fallback: number) =>
+    Number.isFinite(bars) ? Math.min(MAX_CUT_BARS, Math.max(MIN_CUT_BARS, bars)) : fallback;
+
+/**
+ * Segment lengths (in beats) to try for a cut of `bars`: the requested length,
+ * then 4, 2 and 1 bars when shorter, so the song end can still be filled.
+ */
+const getAllowedBeatLengths = (bars: number, beatsPerBar: number) => {
+    const fallbackBars = [4, 2, 1].filter((fallback) => fallback < bars);
+    return Array.from(new Set([bars, ...fallbackBars].map((value) => Math.max(1, Math.round(value * beatsPerBar)))));
+};
+
+/**
+ * Cut length at a point in the song: the last range containing it wins, so
+ * custom ranges listed after section ranges override them.
+ */
+const getCutBarsAt = (ranges: CutLengthRange[], timeSec: number, fallbackBars: number) => {
+    let bars = fallbackBars;
+    ranges.forEach((range) => {
+        if (timeSec >= range.startSec && timeSec < range.endSec) bars = range.bars;
+    });
+    return bars;
+};
+
+/**
+ * Dynamic cut length for a segment starting at beatIndex, from the energy of
+ * the bar that follows: calm music gets maxBars, intense music minBars, with
+ * powers of two in between so cuts keep to musical phrase lengths.
+ */
+const getDynamicCutBars = (dynamic: DynamicCutOptions, beatIndex: number, beatsPerBar: number) => {
+    const window = dynamic.energy.slice(beatIndex, beatIndex + beatsPerBar);
+    const energy = window.length > 0 ? window.reduce((sum, value) => sum + value, 0) / window.length : 0.5;
+    const sensitivity = Math.min(1, Math.max(0, dynamic.sensitivity));
+    const intensity = Math.min(1, Math.max(0, 0.5 + (energy - 0.5) * sensitivity * 2));
+    const minBars = Math.min(dynamic.minBars, dynamic.maxBars);
+    const maxBars = Math.max(dynamic.minBars, dynamic.maxBars);
+    const bars = maxBars * Math.pow(minBars / maxBars, intensity);
+    const quantized = Math.pow(2, Math.round(Math.log2(bars)));
+    return Math.min(maxBars, Math.max(minBars, quantized));
+};
+
+type OffsetState = {
+    random: () => number;
+    /** Where the last use of each clip ended, for sequential offsets. */
+    cursors: Map<string, number>;
+    /** Source ranges already shown, per clip, so active offsets spread out. */
+    used: Map<string, [number, number][]>;
+    /** Move offsets onto detected shot starts when the clip has them. */
+    snapToShots: boolean;
+    /** Visual intensity per clip, when offsets follow the music energy. */
+    intensity: Map<string, IntensityProfile> | null;
+};
+
+/**
+ * Start of the most visually active stretch of needMs in the clip, preferring
+ * stretches that don't overlap what earlier segments already showed. Null
+ * when the clip has no motion profile yet.
+ */
+const pickActiveOffset = (clip: SourceClip, needMs: number, maxOffset: number, state: OffsetState) => {
+    const profile = clip.motion;
+    if (!profile || profile.motion.length === 0) return null;
+    const stepMs = profile.intervalSec * 1000;
+    const windowSize = Math.max(1, Math.ceil(needMs / stepMs));
+    const used = state.used.get(clip.id) ?? [];
+    let best: { offset: number; score: number; overlaps: boolean } | null = null;
+    for (let start = 0; start * stepMs <= maxOffset; start++) {
+        const window = profile.motion.slice(start, start + windowSize);
+        if (window.length === 0) break;
+        const score = window.reduce((sum, value) => sum + value, 0) / windowSize;
+        const offset = start * stepMs;
+        const overlaps = used.some(([from, to]) => offset < to && offset + needMs > from);
+        // A fresh stretch always beats one that repeats footage.
+        if (!best || (best.overlaps && !overlaps) || (best.overlaps === overlaps && score > best.score)) {
+            best = { offset, score, overlaps };
+        }
+    }
+    return best ? Math.min(maxOffset, best.offset) : null;
+};
+
+/**
+ * Where to start reading a clip for a segment that consumes needMs of source.
+ * The segment never runs past the clip end; clips shorter than needMs start
+ * at 0 and export slows them down to fit. With a target energy and a motion
+ * profile, the excerpt that best matches the energy overrides the mode.
+ */
+const pickSourceOffset = (
+    mode: SourceOffsetMode,
+    clip: SourceClip,
+    needMs: number,
+    state: OffsetState,
+    energy: number | null = null
+) => {
+    const maxOffset = Math.max(0, clip.duration - needMs);
+    const profile = energy !== null ? state.intensity?.get(clip.id) : undefined;
+    let offset = 0;
+    if (maxOffset > 0) {
+        if (profile) {
+            offset = findIntensityWindow(profile, needMs, maxOffset, energy!, state.used.get(clip.id))?.offset ?? 0;
+            offset = Math.min(maxOffset, offset);
+        } else if (mode === 'sequential') {
+            const cursor = state.cursors.get(clip.id) ?? 0;
+            offset = cursor <= maxOffset ? cursor : 0;
+        } else if (mode === 'random') {
+            offset = state.random() * maxOffset;
+        } else if (mode === 'center') {
+            offset = maxOffset / 2;
+        } else if (mode === 'active') {
+            offset = pickActiveOffset(clip, needMs, maxOffset, state) ?? maxOffset / 2;
+        }
+        if (state.snapToShots && clip.shotStarts && clip.shotStarts.length > 0) {
+            // Sequential offsets keep moving forward, wrapping to the first shot at the end.
+            offset = mode === 'sequential'
+                ? clip.shotStarts.find((start) => start >= offset && start <= maxOffset) ?? 0
+                : findNearestShotStart(clip.shotStarts, offset, maxOffset) ?? offset;
+        }
+    }
+    offset = Math.round(offset);
+    state.cursors.set(clip.id, offset + needMs);
+    state.used.set(clip.id, [...(state.used.get(clip.id) ?? []), [offset, offset + needMs]]);
+    return offset;
+};
+
+export interface AutoSyncOptions {
+    preferredBars?: number;
+    /** Cut lengths for parts of the song; later ranges override earlier ones. */
+    lengthRanges?: CutLengthRange[];
+    dynamic?: DynamicCutOptions | null;
+    selection?: SyncSelection;
+    offsetMode?: SourceOffsetMode;
+    /** Start segments on detected shot starts (clips without shots are unaffected). */
+    snapToShots?: boolean;
+    /** Music energy per beat (0..1), used by the energy-matching clip order. */
+    energy?: number[] | null;
+    /** Segments to keep; new cuts only fill the time around them. */
+    lockedSegments?: ClipSegment[];
+    /** Cut on these onsets instead of the beat grid (cut lengths and rhythm don't apply). */
+    onsetCuts?: OnsetCutOptions | null;
+    shortClips?: ShortClipMode;
+}
+
+export interface StretchReportEntry {
+    segmentId: string;
+    clipName: string;
+    timelineStart: number;
+    duration: number;
+    /** Playback rate after the clamp that keeps the segment inside its clip. */
+    rate: number;
+    /** Too little footage left to look like motion: playback holds a still frame. */
+    frozen: boolean;
+}
+
+// Below this rate preview playback can't slow down any further and holds the last frame.
+const FROZEN_RATE = 0.5;
+
+/**
+ * Segments that playback and export will slow down because the clip runs out
+ * of footage before the segment ends (the same clamp they apply), in timeline
+ * order.
+ */
+export const findStretchedSegments = (segments: ClipSegment[], clips: SourceClip[]): StretchReportEntry[] => {
+    const clipsById = new Map(clips.map((clip) => [clip.id, clip]));
+    const report: StretchReportEntry[] = [];
+    segments.forEach((segment) => {
+        const clip = clipsById.get(segment.sourceClipId);
+        if (!clip || clip.type !== 'video' || segment.duration <= 0) return;
+        const requestedRate = typeof segment.playbackRate === 'number' && Number.isFinite(segment.playbackRate)
+            ? Math.max(0.05, segment.playbackRate)
+            : 1;
+        const available = Math.max(0, clip.duration - segment.sourceStartOffset);
+        const rate = Math.min(requestedRate, available / segment.duration);
+        if (rate >= requestedRate - 1e-3) return;
+        report.push({
+            segmentId: segment.id,
+            clipName: clip.name,
+            timelineStart: segment.timelineStart,
+            duration: segment.duration,
+            rate,
+            frozen: rate < FROZEN_RATE,
+        });
+    });
+    return report.sort((a, b) => a.timelineStart - b.timelineStart);
+};
+
+// Pieces shorter than this left between locked segments aren't worth a cut.
+const MIN_PIECE_MS = 100;
+
+/**
+ * Parts of [startMs, endMs) not covered by any locked range, as [from, to]
+ * pairs in timeline order. `locked` must be sorted by start.
+ */
+const subtractLockedRanges = (startMs: number, endMs: number, locked: [number, number][]) => {
+    const pieces: [number, number][] = [];
+    let cursor = startMs;
+    locked.forEach(([from, to]) => {
+        if (to <= cursor || from >= endMs) return;
+        if (from > cursor) pieces.push([cursor, from]);
+        cursor = Math.max(cursor, to);
+    });
+    if (cursor < endMs) pieces.push([cursor, endMs]);
+    return pieces.filter(([from, to]) => to - from >= MIN_PIECE_MS);
+};
+
+/**
+ * Cut points for onset mode, in seconds: the strongest onsets first, each kept
+ * only if it is at least minSpacingSec from every cut already chosen (and from
+ * the start and end of the song).
+ */
+export const selectCutOnsets = (onsets: Onset[], options: OnsetCutOptions, durationSec: number) => {
+    const spacing = Math.max(0.05, options.minSpacingSec);
+    const chosen: number[] = [];
+    [...onsets]
+        .filter((onset) => onset.strength >= options.minStrength)
+        .sort((a, b) => b.strength - a.strength)
+        .forEach((onset) => {
+            if (onset.time < spacing || onset.time > durationSec - spacing) return;
+            if (chosen.some((time) => Math.abs(time - onset.time) < spacing)) return;
+            chosen.push(onset.time);
+        });
+    return chosen.sort((a, b) => a - b);
+};
+
+const averageEnergy = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const findNearestBeatIndex = (beats: number[], timeSec: number) => {
+    let best = 0;
+    beats.forEach((beat, idx) => {
+        if (Math.abs(beat - timeSec) < Math.abs(beats[best] - timeSec)) best = idx;
+    });
+    return best;
+};
+
+/**
+ * Cuts the song into segments on the beat grid (or onsets) and fills them
+ * with clips. Segments always play at 1×, so each one reads as much source
+ * as it lasts on the timeline.
+ */
 export const autoSyncClips = (
     clips: SourceClip[], 
     beatGrid: BeatGrid, 
     totalDuration: number,
-    preferredBars: number = 4
+    beatsPerBar: number,
+    options: AutoSyncOptions = {}
 ): ClipSegment[] => {
+    const {
+        preferredBars = 4,
+        lengthRanges = [],
+        dynamic = null,
+        selection = DEFAULT_SYNC_SELECTION,
+        offsetMode = 'start',
+        snapToShots = false,
+        energy = null,
+        lockedSegments = [],
+        onsetCuts = null,
+        shortClips = 'allow'
+    } = options;
+    const lockedRanges = lockedSegments
+        .map((segment): [number, number] => [segment.timelineStart, segment.timelineStart + segment.duration])
+        .sort((a, b) => a[0] - b[0]);
     const defaultFadeIn = { enabled: false, startMs: 0, endMs: 500 };
     const defaultFadeOut = { enabled: false, startMs: -500, endMs: 0 };
-    const beatsPerBar = BEATS_PER_BAR;
-    const sanitizedBars = Number.isFinite(preferredBars) ? Math.max(1, Math.round(preferredBars)) : 4;
-    const fallbackBars = [4, 2, 1].filter((bars) => bars < sanitizedBars);
-    const allowedBarLengths = Array.from(new Set([sanitizedBars, ...fallbackBars]))
-        .map((bars) => bars * beatsPerBar);
+    const sanitizedBars = sanitizeBars(preferredBars, 4);
+    // Range edges snap to the nearest beat so density changes land on the grid.
+    const snapToBeat = (timeSec: number) => beatGrid.beats[findNearestBeatIndex(beatGrid.beats, timeSec)];
+    const ranges = beatGrid.beats.length === 0 ? [] : lengthRanges
+        .map((range) => ({
+            ...range,
+            startSec: snapToBeat(range.startSec),
+            endSec: snapToBeat(range.endSec),
+            bars: sanitizeBars(range.bars, sanitizedBars),
+        }))
+        .filter((range) => range.endSec > range.startSec);
+    const rangeEdges = Array.from(new Set(ranges.flatMap((range) => [range.startSec, range.endSec])))
+        .sort((a, b) => a - b);
     const segments: ClipSegment[] = [];
-    const orderedClips = [...clips].sort((a, b) =>
+    let orderedClips = [...clips].sort((a, b) =>
         a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
     );
-    let segmentIndex = 0;
-    
-    if (orderedClips.length === 0 || beatGrid.beats.length === 0) return [];
+    if (shortClips === 'skip' && beatGrid.beats.length > 1) {
+        // Target interval: the fixed cut length at the grid's average beat.
+        const beatMs = ((beatGrid.beats[beatGrid.beats.length - 1] - beatGrid.beats[0]) / (beatGrid.beats.length - 1)) * 1000;
+        const targetMs = sanitizedBars * beatsPerBar * beatMs;
+        const longEnough = orderedClips.filter((clip) => clip.duration >= targetMs);
+        // With nothing long enough, short clips are all there is.
+        if (longEnough.length > 0) orderedClips = longEnough;
+    }
+    if (orderedClips.length === 0) return [];
+    if (!onsetCuts && beatGrid.beats.length === 0) return [];
+
+    const strategy = SYNC_STRATEGIES[selection.strategy] ?? sequentialStrategy;
+    const pickClip = strategy.create(orderedClips, createSeededRandom(selection.seed));
+    const usage = new Map<string, number>();
+    // Cuts per clip, for usage caps and pattern slots.
+    const uses = new Map<string, number>();
+    let previousClipId: string | null = null;
+    const isCapped = (clip: SourceClip) =>
+        Number.isFinite(clip.maxUses) && (uses.get(clip.id) ?? 0) >= clip.maxUses!;
+    // In fit mode a clip that can't fill the slot counts as unavailable too.
+    const isUnavailable = (clip: SourceClip, needMs: number) =>
+        isCapped(clip) || (shortClips === 'fit' && clip.duration < needMs);
+    const patternSlots = selection.pattern ? parseClipPattern(selection.pattern, orderedClips).slots : [];
+    let patternIndex = 0;
 
+    /**
+     * Next clip: the pattern slot when there is one (clips sharing a slot take
+     * turns), otherwise the strategy, skipping clips that reached their cap or
+     * are too short for the slot. When every candidate is unavailable the
+     * rules give way (a short clip falls back to the longest) so the song is
+     * filled.
+     */
+    const chooseClip = (state: SyncPickState) => {
+        const unavailable = (clip: SourceClip) => isUnavailable(clip, state.needMs);
+        const slot = patternSlots.length > 0 ? patternSlots[patternIndex++ % patternSlots.length] : null;
+        const open = slot?.filter((clip) => !unavailable(clip)) ?? [];
+        if (open.length > 0) {
+            return open.reduce((best, clip) => ((uses.get(clip.id) ?? 0) < (uses.get(best.id) ?? 0) ? clip : best));
+        }
+        let clip = pickClip(state);
+        for (let attempt = 0; unavailable(clip) && attempt < orderedClips.length * 4; attempt++) {
+            clip = pickClip(state);
+        }
+        if (!unavailable(clip)) return clip;
+        const fallback = orderedClips.find((candidate) => !unavailable(candidate));
+        if (fallback) return fallback;
+        return shortClips === 'fit'
+            ? orderedClips.reduce((longest, candidate) => (candidate.duration > longest.duration ? candidate : longest))
+            : clip;
+    };
+    // Separate stream from the clip picker so changing the offset mode keeps the clip order.
+    const offsetState: OffsetState = {
+        random: createSeededRandom(selection.seed ^ 0x9e3779b9),
+        cursors: new Map(),
+        used: new Map(),
+        snapToShots,
+        intensity: selection.strategy === 'energy' ? getVisualIntensity(orderedClips) : null,
+    };
+
+    /** Picks a clip and offset for [startTime, endTime) ms and adds its segments. */
+    const placeCut = (startTime: number, endTime: number, segmentEnergy: number | null) => {
+        // Entirely under locked segments: nothing to cut here.
+        const pieces = subtractLockedRanges(startTime, endTime, lockedRanges);
+        if (pieces.length === 0) return;
+
+        const duration = endTime - startTime;
+        const clip = chooseClip({ usage, previousClipId, energy: segmentEnergy, needMs: duration });
+        const sourceStartOffset = pickSourceOffset(
+            offsetMode,
+            clip,
+            duration,
+            offsetState,
+            offsetState.intensity ? segmentEnergy : null
+        );
+
+        // Locked segments sit on top of the cut; the footage around them keeps running.
+        pieces.forEach(([from, to]) => {
+            segments.push({
+                id: uuidv4(),
+                sourceClipId: clip.id,
+                timelineStart: from,
+                duration: to - from,
+                sourceStartOffset: sourceStartOffset + from - startTime,
+                playbackRate: 1,
+                reverse: false,
+                fadeIn: { ...defaultFadeIn },
+                fadeOut: { ...defaultFadeOut }
+            });
+        });
+        usage.set(clip.id, (usage.get(clip.id) ?? 0) + pieces.reduce((sum, [from, to]) => sum + to - from, 0));
+        uses.set(clip.id, (uses.get(clip.id) ?? 0) + 1);
+        previousClipId = clip.id;
+    };
+
+    if (onsetCuts) {
+        const durationSec = totalDuration / 1000;
+        const cuts = [0, ...selectCutOnsets(onsetCuts.onsets, onsetCuts, durationSec), durationSec];
+        for (let idx = 0; idx < cuts.length - 1; idx++) {
+            const fromSec = cuts[idx];
+            const toSec = cuts[idx + 1];
+            const beatEnergy = energy
+                ? energy.filter((_, beatIdx) => beatGrid.beats[beatIdx] >= fromSec && beatGrid.beats[beatIdx] < toSec)
+                : [];
+            placeCut(fromSec * 1000, toSec * 1000, averageEnergy(beatEnergy));
+        }
+        return segments;
+    }
+
+    // Beats already follow the tempo map, and barPhase says which of them is
+    // the first "1", so shorten the first segment to end on a downbeat.
     const beats = beatGrid.beats;
-    const secondsPerBeat = 60 / beatGrid.bpm;
-    // If the beat grid starts before time 0, trim beats collapsed at 0 from the first segment.
-    const missingBeats = beatGrid.offset < 0
-        ? Math.floor((-beatGrid.offset) / secondsPerBeat) + 1
-        : 0;
-    const firstSegmentBeatAdjustment = Math.max(0, missingBeats - 1);
+    const leadInBeats = ((beatGrid.barPhase % beatsPerBar) + beatsPerBar) % beatsPerBar;
+    const firstSegmentBeatAdjustment = leadInBeats > 0 ? beatsPerBar - leadInBeats : 0;
     // Ensure we cover the start if the first beat is offset
     if (beats[0] > 0) {
         // This logic simplifies; real logic might backfill
@@ -40,10 +595,17 @@ export const autoSyncClips = (
     while (beatIndex < beats.length - 1) {
         const startTime = beats[beatIndex] * 1000; // Convert to ms
 
-        const clip = orderedClips[segmentIndex % orderedClips.length];
+        // Ranges win over the dynamic rhythm, which wins over the fixed length.
+        const baseBars = dynamic
+            ? sanitizeBars(getDynamicCutBars(dynamic, beatIndex, beatsPerBar), sanitizedBars)
+            : sanitizedBars;
+        const allowedBeatLengths = getAllowedBeatLengths(
+            getCutBarsAt(ranges, beats[beatIndex], baseBars),
+            beatsPerBar
+        );
         // Clip to preferred, 4, 2, or 1 bars (no 3-bar segments).
         let chosenEndBeatIndex = -1;
-        for (const beatLength of allowedBarLengths) {
+        for (const beatLength of allowedBeatLengths) {
             const adjustedBeatLength = beatIndex === 0
                 ? Math.max(1, beatLength - firstSegmentBeatAdjustment)
                 : beatLength;
@@ -62,6 +624,13 @@ export const autoSyncClips = (
             chosenEndBeatIndex = fallbackIndex;
         }
 
+        // Don't run across a density change: end on the next range edge instead.
+        const nextEdge = rangeEdges.find((edge) => edge > beats[beatIndex]);
+        if (nextEdge !== undefined) {
+            const edgeBeatIndex = findNearestBeatIndex(beats, nextEdge);
+            if (edgeBeatIndex < chosenEndBeatIndex) chosenEndBeatIndex = edgeBeatIndex;
+        }
+
         const endTime = beats[chosenEndBeatIndex] * 1000;
         const duration = endTime - startTime;
 
@@ -71,21 +640,11 @@ export const autoSyncClips = (
             continue;
         }
 
-        // Default clip offset to 0 so segments start at the beginning.
-        const sourceStartOffset = 0;
-
-        segments.push({
-            id: uuidv4(),
-            sourceClipId: clip.id,
-            timelineStart: startTime,
-            duration: duration,
-            sourceStartOffset: sourceStartOffset,
-            playbackRate: 1,
-            reverse: false,
-            fadeIn: { ...defaultFadeIn },
-            fadeOut: { ...defaultFadeOut }
-        });
-        segmentIndex += 1;
+        placeCut(
+            startTime,
+            endTime,
+            energy && energy.length > 0 ? averageEnergy(energy.slice(beatIndex, chosenEndBeatIndex)) : null
+        );
 
         // Stop if we exceed total duration of audio
         if (startTime > totalDuration) break;
@@ -10,6 +10,24 @@ export interface SourceClip {
   name: string;
   type: 'video' | 'audio';
   objectUrl: string; // Helper for previewing without re-creating URLs
+  // Source times (ms) where a new shot starts, from scene detection; starts with 0.
+  shotStarts?: TimeMS[];
+  motion?: MotionProfile;
+  // Auto-sync preferences: relative pick weight (default 1), the most cuts the
+  // clip may get, and tags a clip pattern can refer to.
+  weight?: number;
+  maxUses?: number;
+  tags?: string[];
+}
+
+/**
+ * Per-interval motion (mean luma change from the previous sample, 0..255) and
+ * brightness (mean luma, 0..1) of a video, measured with ffmpeg signalstats.
+ */
+export interface MotionProfile {
+  intervalSec: number;
+  motion: number[];
+  brightness: number[];
 }
 
 export interface ClipSegment {
@@ -24,6 +42,8 @@ export interface ClipSegment {
   reverse?: boolean;
   fadeIn?: FadeRange;
   fadeOut?: FadeRange;
+  // Kept as-is when auto-sync re-cuts the track.
+  locked?: boolean;
 }
 
 export interface FadeRange {
@@ -38,10 +58,119 @@ export interface TimelineTrack {
   segments: ClipSegment[];
 }
 
+export interface TempoSegment {
+  time: number; // Time in sec of the segment's first beat
+  bpm: number; // Tempo until the next segment starts
+}
+
+export interface TimeSignature {
+  beatsPerBar: number; // Grid beats in one bar (6 for 6/8: the grid counts eighths)
+  beatUnit: number; // Note value of one beat, for display only
+}
+
 export interface BeatGrid {
-  bpm: number;
+  bpm: number; // Tempo of the first tempo segment
   offset: number; // Time in sec to first beat
   beats: number[]; // Array of timestamps in seconds
+  tempoMap: TempoSegment[]; // Sorted by time; empty when nothing was analyzed
+  barPhase: number; // Index in `beats` of the first downbeat (0..beatsPerBar - 1)
+  edited: boolean; // Beats were placed by hand or imported; keep them instead of rebuilding from the BPM
+}
+
+export interface Onset {
+  time: number; // Seconds
+  strength: number; // Normalized spectral flux peak (0..1)
+}
+
+/** Loudness of a track in short windows, the basis of per-beat energy. */
+export interface LoudnessEnvelope {
+  windowsPerSec: number;
+  logRms: number[]; // Log RMS of each window, channels mixed
+}
+
+export interface WaveformLevel {
+  samplesPerPeak: number;
+  channels: number[][]; // Per channel, interleaved [min, max] pairs scaled to -127..127
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  length: number; // Samples per channel
+  levels: WaveformLevel[]; // Finest first; each level merges pairs of the one before
+}
+
+/**
+ * Coarse pyramid levels as a project file stores them: each channel's peaks
+ * are base64 of signed bytes. The full pyramid is rebuilt after loading.
+ */
+export interface SavedWaveformPeaks {
+  sampleRate: number;
+  length: number;
+  levels: { samplesPerPeak: number; channels: string[] }[];
+}
+
+/** Named region of the song (intro, verse, drop...), detected or adjusted by hand. */
+export interface SongSection {
+  id: string;
+  name: string;
+  startSec: number;
+  endSec: number;
+  cutBars?: number; // Auto-sync cut length inside this section; unset uses the dialog's clip length
+}
+
+/** Time range with its own auto-sync cut length (bars; 0.5 is half a bar). */
+export interface CutLengthRange {
+  id: string;
+  startSec: number;
+  endSec: number;
+  bars: number;
+}
+
+export type SyncStrategyId = 'sequential' | 'shuffle' | 'weighted' | 'leastUsed' | 'energy';
+
+/** How auto-sync assigns clips to segments; the seed makes random picks repeatable. */
+export interface SyncSelection {
+  strategy: SyncStrategyId;
+  seed: number;
+  // Repeating clip sequence such as "A B A C"; `*` lets the strategy choose.
+  pattern?: string;
+}
+
+/**
+ * What auto-sync does with clips too short for a slot: use them anyway (they
+ * play slowed down), only give them slots they can fill, or leave out clips
+ * shorter than the cut length altogether.
+ */
+export type ShortClipMode = 'allow' | 'fit' | 'skip';
+
+/** How dragging a segment affects its neighbors on the track. */
+export type EditMode = 'standard' | 'ripple' | 'roll' | 'slip' | 'slide';
+
+/** Timeline grid that seeking, moving and trimming snap to. */
+export type SnapResolution = 'bar' | 'beat' | '1/2' | '1/4' | 'off';
+
+/** Where auto-sync starts reading each source clip. */
+export type SourceOffsetMode = 'start' | 'sequential' | 'random' | 'center' | 'active';
+
+/** Auto-sync "Dynamic" rhythm: shorter cuts where the music is intense. */
+export interface DynamicCutOptions {
+  energy: number[]; // Per beat of the grid, 0 (calm) to 1 (intense)
+  sensitivity: number; // 0 ignores energy (middle length), 1 exaggerates it
+  minBars: number;
+  maxBars: number;
+}
+
+/** Auto-sync cut points taken from detected onsets rather than the beat grid. */
+export interface OnsetCutOptions {
+  onsets: Onset[];
+  minSpacingSec: number;
+  minStrength: number; // 0..1, weaker onsets never become cuts
+}
+
+export interface BeatAnalysis {
+  beatGrid: BeatGrid;
+  onsets: Onset[];
+  sections: SongSection[];
 }
 
 export type SerializableClip = Omit<SourceClip, 'objectUrl'>;
@@ -52,10 +181,16 @@ export interface SavedProject {
   clips: SerializableClip[];
   tracks: TimelineTrack[];
   beatGrid: BeatGrid;
-  waveform: number[];
+  timeSignature: TimeSignature;
+  waveformPeaks: SavedWaveformPeaks | null;
+  sections: SongSection[];
+  onsets: Onset[];
+  cutRanges: CutLengthRange[];
+  syncSelection: SyncSelection;
   introSkipFrames: number;
   duration: TimeMS;
   zoom: number;
+  snapResolution: SnapResolution;
   useProxies: boolean;
 }
 